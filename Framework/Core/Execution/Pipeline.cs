@@ -41,13 +41,16 @@ public static class Pipeline
 
     /// <summary>
     /// Executes a pipeline of steps sequentially with middleware composition.
+    /// Cancelling <paramref name="cancellationToken"/> stops the running step and reports the
+    /// pipeline as cancelled in its <see cref="PipelineCompletedEvent"/>.
     /// </summary>
     public static async Task<IStepResult> ExecuteAsync<T>(
         string name,
         IReadOnlyList<IStep> steps,
         T input,
         PipelineContext? context = null,
-        TimeSpan? pipelineTimeout = null)
+        TimeSpan? pipelineTimeout = null,
+        CancellationToken cancellationToken = default)
     {
         ArgumentNullException.ThrowIfNull(steps);
         ArgumentNullException.ThrowIfNull(input);
@@ -74,10 +77,12 @@ public static class Pipeline
         // Build middleware chain ONCE - the terminal executes the step
         var middlewareChain = BuildMiddlewareChain(middlewares);
 
-        // Create cancellation token with pipeline timeout
-        using var pipelineCts = pipelineTimeout.HasValue
-            ? new CancellationTokenSource(pipelineTimeout.Value)
-            : new CancellationTokenSource();
+        // Create cancellation token with pipeline timeout, linked to the caller's token
+        using var pipelineCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+        if (pipelineTimeout.HasValue)
+        {
+            pipelineCts.CancelAfter(pipelineTimeout.Value);
+        }
 
         var pipelineCancellationToken = pipelineCts.Token;
 
@@ -127,16 +132,17 @@ public static class Pipeline
         logger.LogInformation("Pipeline {Name} completed with status: {Status}, duration: {Duration}ms",
             name, currentResult.HasError ? "Error" : "Success", pipelineStopwatch.ElapsedMilliseconds);
 
-        // Send pipeline completed event
+        // Send pipeline completed event; not bound to the pipeline token so a cancelled run is still reported
         await context.SendEventAsync(new PipelineCompletedEvent
         {
             StepName = name,
             PipelineName = name,
             Success = !currentResult.HasError,
+            Cancelled = cancellationToken.IsCancellationRequested,
             Duration = pipelineStopwatch.Elapsed,
             ErrorMessage = currentResult.Error?.Message,
             CorrelationId = context.CorrelationId
-        }, pipelineCancellationToken);
+        }, CancellationToken.None);
 
         return currentResult;
     }
@@ -14,6 +14,9 @@ public sealed record PipelineCompletedEvent : ProgressEventBase
     /// <summary>Whether the pipeline completed successfully.</summary>
     public bool Success { get; init; }
 
+    /// <summary>Whether the caller cancelled the pipeline before it finished.</summary>
+    public bool Cancelled { get; init; }
+
     /// <summary>Total duration of the pipeline execution.</summary>
     public TimeSpan Duration { get; init; }
 
@@ -15,6 +15,11 @@ public sealed record ChatRequest
     /// </summary>
     public string? ConversationId { get; init; }
 
+    /// <summary>
+    /// Optional correlation ID chosen by the client so it can match streamed events to this request.
+    /// </summary>
+    public string? CorrelationId { get; init; }
+
     /// <summary>
     /// Name of the pipeline to execute (default: "StoryMachine").
     /// </summary>
@@ -33,6 +33,7 @@ builder.Services.AddSingleton<ILlmService, OpenAILLmService.OpenAILlmService>();
 builder.Services.AddSingleton(sp => (EventChannel)sp.GetRequiredService<IEventChannel>());
 
 builder.Services.AddSingleton<SseEventBroadcaster>();
+builder.Services.AddHostedService(sp => sp.GetRequiredService<SseEventBroadcaster>());
 builder.Services.AddSingleton<PipelineExecutor>();
 builder.Services.AddSingleton<ContextStore>();
 builder.Services.AddSingleton<ContextBroadcastMiddleware>();
@@ -64,6 +65,7 @@ app.Services.RegisterPipelineMiddleware<ContextBroadcastMiddleware>();
 
 
 app.UseCors();
+app.UseWebSockets();
 app.UseDefaultFiles();
 app.UseStaticFiles();
 
@@ -87,15 +89,61 @@ app.MapGet("/api/pipeline", async (IWebHostEnvironment env) =>
 
 
 // GET /api/events - SSE endpoint for real-time events
+// Resumes after Last-Event-ID; the header is sent by EventSource's own reconnects,
+// the lastEventId query value by clients that reconnect with a new EventSource.
+// streamId tells ids of a previous server process apart
 app.MapGet("/api/events", async (
     HttpContext httpContext,
+    string? streamId,
     SseEventBroadcaster broadcaster,
     CancellationToken cancellationToken) =>
 {
-    await broadcaster.StreamAsync(httpContext.Response, cancellationToken);
+    var lastEventId = httpContext.Request.Headers["Last-Event-ID"].FirstOrDefault()
+        ?? httpContext.Request.Query["lastEventId"].FirstOrDefault();
+
+    await broadcaster.StreamAsync(
+        httpContext.Response,
+        long.TryParse(lastEventId, out var id) ? id : null,
+        streamId,
+        cancellationToken);
 })
 .WithName("EventStream");
 
+// GET /api/events/ws - The same stream over WebSocket, for proxies that buffer SSE
+app.MapGet("/api/events/ws", async (
+    HttpContext httpContext,
+    long? lastEventId,
+    string? streamId,
+    SseEventBroadcaster broadcaster,
+    CancellationToken cancellationToken) =>
+{
+    if (!httpContext.WebSockets.IsWebSocketRequest)
+    {
+        httpContext.Response.StatusCode = StatusCodes.Status400BadRequest;
+        return;
+    }
+
+    using var socket = await httpContext.WebSockets.AcceptWebSocketAsync();
+    await broadcaster.StreamWebSocketAsync(socket, lastEventId, streamId, cancellationToken);
+})
+.WithName("EventStreamWebSocket");
+
+// GET /api/events/poll - Long-poll fallback: waits up to timeout seconds for events after lastEventId
+app.MapGet("/api/events/poll", async (
+    HttpResponse response,
+    long? lastEventId,
+    string? streamId,
+    int? timeout,
+    SseEventBroadcaster broadcaster,
+    CancellationToken cancellationToken) =>
+{
+    response.Headers.CacheControl = "no-store";
+    var wait = TimeSpan.FromSeconds(Math.Clamp(timeout ?? 25, 0, 60));
+    var json = await broadcaster.PollAsync(lastEventId, streamId, wait, cancellationToken);
+    return Results.Content(json, "application/json");
+})
+.WithName("EventStreamPoll");
+
 // Health check
 app.MapGet("/api/health", () => Results.Ok(new { status = "healthy", timestamp = DateTime.UtcNow }))
 .WithName("HealthCheck");
@@ -67,7 +67,7 @@ public sealed class PipelineExecutor
     /// </summary>
     public async Task<ChatResponse> ExecuteAsync(ChatRequest request, CancellationToken cancellationToken)
     {
-        var correlationId = Guid.NewGuid().ToString();
+        var correlationId = request.CorrelationId ?? Guid.NewGuid().ToString();
         var conversationId = request.ConversationId ?? Guid.NewGuid().ToString();
 
         _logger.LogInformation("Starting pipeline execution. CorrelationId: {CorrelationId}, ConversationId: {ConversationId}, Message: {Message}",
@@ -76,7 +76,7 @@ public sealed class PipelineExecutor
         try
         {
             // Create FRESH context with event channel
-            var context = PipelineContextFactory.Create() with { EventChannel = _eventChannel };
+            var context = PipelineContextFactory.Create(correlationId: correlationId) with { EventChannel = _eventChannel };
 
             // Restore conversation history if exists
             var existingHistory = _contextStore.GetHistory(conversationId);
@@ -91,11 +91,23 @@ public sealed class PipelineExecutor
 
             // Execute
             var input = new UserInputResult(request.Message);
-            var result = await Pipeline.ExecuteAsync(request.PipelineName, pipeline, input, context);
+            var result = await Pipeline.ExecuteAsync(request.PipelineName, pipeline, input, context, cancellationToken: cancellationToken);
 
             // Save updated history for next turn
             _contextStore.SaveHistory(conversationId, context.Conversation.History);
 
+            if (cancellationToken.IsCancellationRequested)
+            {
+                _logger.LogWarning("Pipeline cancelled by the client. CorrelationId: {CorrelationId}", correlationId);
+
+                return new ChatResponse
+                {
+                    CorrelationId = correlationId,
+                    ConversationId = conversationId,
+                    Error = "Pipeline execution was cancelled"
+                };
+            }
+
             if (result.HasError)
             {
                 _logger.LogWarning("Pipeline completed with error. CorrelationId: {CorrelationId}, Error: {Error}",
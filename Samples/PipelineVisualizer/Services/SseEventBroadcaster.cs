@@ -1,19 +1,33 @@
 using AITaskAgent.Observability;
 using Newtonsoft.Json;
 using Serilog.Events;
+using System.Net.WebSockets;
+using System.Runtime.CompilerServices;
+using System.Text;
 using System.Threading.Channels;
 
 namespace PipelineVisualizer.Services;
 
 /// <summary>
 /// Bridges EventChannel and SerilogSseSink to SSE responses.
-/// Merges pipeline events and log events into a single SSE stream.
+/// Merges pipeline events and log events into a single SSE stream, also served
+/// over WebSocket and long-poll for proxies that buffer SSE.
+/// Every event gets a sequential id and is kept in a replay buffer, so a client
+/// reconnecting with Last-Event-ID receives what it missed.
 /// </summary>
 public sealed class SseEventBroadcaster(
     EventChannel eventChannel,
     SerilogSseSink serilogSink,
-    ILogger<SseEventBroadcaster> logger)
+    ILogger<SseEventBroadcaster> logger) : BackgroundService
 {
+    private const int ReplayCapacity = 5000;
+    private const int ClientCapacity = 1000;
+
+    /// <summary>
+    /// Interval of the heartbeat event; clients treat a silent connection as dead after a few of them.
+    /// </summary>
+    private static readonly TimeSpan HeartbeatInterval = TimeSpan.FromSeconds(15);
+
     private readonly JsonSerializerSettings _jsonSettings = new()
     {
         Formatting = Formatting.None,
@@ -21,34 +35,183 @@ public sealed class SseEventBroadcaster(
         ReferenceLoopHandling = ReferenceLoopHandling.Ignore
     };
 
+    /// <summary>
+    /// Identifies this server process; ids restart when it changes.
+    /// </summary>
+    private readonly string _streamId = Guid.NewGuid().ToString("N");
+
+    private readonly object _lock = new();
+    private readonly Queue<SseEntry> _replay = new();
+    private readonly List<ChannelWriter<SseEntry>> _clients = [];
+    private TaskCompletionSource _published = new(TaskCreationOptions.RunContinuationsAsynchronously);
+    private long _lastId;
+
+    private sealed record SseEntry(long Id, string Json);
+
+    /// <summary>
+    /// A connected streaming client: its queue of live events, the buffered events it
+    /// missed, and the id those follow.
+    /// </summary>
+    private sealed record Subscription(Channel<SseEntry> Channel, SseEntry[] Backlog, long ResumeAfter);
+
     /// <summary>
     /// Streams all events (pipeline + logs) to the HTTP response as SSE.
+    /// Buffered events after the resume point (see <see cref="ResumeAfter"/>) are sent first.
     /// </summary>
-    public async Task StreamAsync(HttpResponse response, CancellationToken cancellationToken)
+    public async Task StreamAsync(
+        HttpResponse response,
+        long? lastEventId,
+        string? streamId,
+        CancellationToken cancellationToken)
     {
         response.Headers.ContentType = "text/event-stream";
         response.Headers.CacheControl = "no-cache";
         response.Headers.Connection = "keep-alive";
 
-        // Send initial comment to flush headers and establish connection
-        await response.WriteAsync(": connected\n\n", cancellationToken);
-        await response.Body.FlushAsync(cancellationToken);
+        var subscription = Subscribe(lastEventId, streamId);
+        logger.LogInformation("SSE client connected (Last-Event-ID: {LastEventId}, replaying {Count} events)",
+            lastEventId, subscription.Backlog.Length);
+
+        try
+        {
+            await WriteAsync(response, $"event: hello\ndata: {HelloJson(subscription)}\n\n", cancellationToken);
+
+            await foreach (var entry in ReadEntriesAsync(subscription, cancellationToken))
+            {
+                var message = entry is null
+                    ? "event: heartbeat\ndata: {}\n\n"
+                    : $"id: {entry.Id}\ndata: {entry.Json}\n\n";
+                await WriteAsync(response, message, cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            logger.LogInformation("SSE client disconnected");
+        }
+        finally
+        {
+            Unsubscribe(subscription);
+        }
+    }
+
+    /// <summary>
+    /// Streams the same events over a WebSocket, one JSON frame per message,
+    /// for networks whose proxies buffer text/event-stream responses.
+    /// </summary>
+    public async Task StreamWebSocketAsync(
+        WebSocket socket,
+        long? lastEventId,
+        string? streamId,
+        CancellationToken cancellationToken)
+    {
+        var subscription = Subscribe(lastEventId, streamId);
+        logger.LogInformation("WebSocket client connected (Last-Event-ID: {LastEventId}, replaying {Count} events)",
+            lastEventId, subscription.Backlog.Length);
+
+        using var closedCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+        var receiving = ReceiveUntilClosedAsync(socket, closedCts);
 
+        try
+        {
+            var hello = JsonConvert.SerializeObject(
+                new { kind = "hello", streamId = _streamId, lastEventId = subscription.ResumeAfter }, _jsonSettings);
+            await SendAsync(socket, hello, closedCts.Token);
+
+            await foreach (var entry in ReadEntriesAsync(subscription, closedCts.Token))
+            {
+                var frame = entry is null
+                    ? """{"kind":"heartbeat"}"""
+                    : $$"""{"kind":"event","id":{{entry.Id}},"event":{{entry.Json}}}""";
+                await SendAsync(socket, frame, closedCts.Token);
+            }
+        }
+        catch (Exception ex) when (ex is OperationCanceledException or WebSocketException)
+        {
+            logger.LogInformation("WebSocket client disconnected");
+        }
+        finally
+        {
+            Unsubscribe(subscription);
+            await closedCts.CancelAsync();
+            await receiving;
+
+            if (socket.State is WebSocketState.Open or WebSocketState.CloseReceived)
+            {
+                try
+                {
+                    await socket.CloseOutputAsync(WebSocketCloseStatus.NormalClosure, null, CancellationToken.None);
+                }
+                catch (WebSocketException)
+                {
+                    // Client already gone
+                }
+            }
+        }
+    }
+
+    /// <summary>
+    /// Long-poll variant: returns the buffered events after the resume point, waiting
+    /// up to <paramref name="timeout"/> for one to be published if there are none yet.
+    /// The response carries the id the events follow, so an empty one still moves the cursor.
+    /// </summary>
+    public async Task<string> PollAsync(
+        long? lastEventId,
+        string? streamId,
+        TimeSpan timeout,
+        CancellationToken cancellationToken)
+    {
+        long after;
+        SseEntry[] entries;
+        Task published;
+        lock (_lock)
+        {
+            after = ResumeAfter(lastEventId, streamId);
+            entries = [.. _replay.Where(entry => entry.Id > after)];
+            published = _published.Task;
+        }
+
+        if (entries.Length == 0)
+        {
+            try
+            {
+                await published.WaitAsync(timeout, cancellationToken);
+            }
+            catch (TimeoutException)
+            {
+                // Nothing published; an empty response keeps the client polling
+            }
+
+            lock (_lock)
+            {
+                entries = [.. _replay.Where(entry => entry.Id > after)];
+            }
+        }
+
+        var json = new StringBuilder();
+        json.Append($$"""{"streamId":"{{_streamId}}","lastEventId":{{after}},"events":[""");
+        json.AppendJoin(',', entries.Select(entry => $$"""{"id":{{entry.Id}},"event":{{entry.Json}}}"""));
+        json.Append("]}");
+        return json.ToString();
+    }
+
+    /// <summary>
+    /// Reads pipeline and log events once for all clients.
+    /// </summary>
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
         var subscription = eventChannel.CreateSubscription(1000);
         var logReader = serilogSink.Subscribe();
 
-        logger.LogInformation("SSE client connected");
-
         try
         {
             await Task.WhenAll(
-                StreamPipelineEventsAsync(subscription.Reader, response, cancellationToken),
-                StreamLogEventsAsync(logReader, response, cancellationToken)
+                PumpPipelineEventsAsync(subscription.Reader, stoppingToken),
+                PumpLogEventsAsync(logReader, stoppingToken)
             );
         }
         catch (OperationCanceledException)
         {
-            logger.LogInformation("SSE client disconnected");
+            // Host shutting down
         }
         finally
         {
@@ -56,9 +219,8 @@ public sealed class SseEventBroadcaster(
         }
     }
 
-    private async Task StreamPipelineEventsAsync(
+    private async Task PumpPipelineEventsAsync(
         ChannelReader<IProgressEvent> reader,
-        HttpResponse response,
         CancellationToken cancellationToken)
     {
         await foreach (var evt in reader.ReadAllAsync(cancellationToken))
@@ -73,13 +235,12 @@ public sealed class SseEventBroadcaster(
                 data = evt
             };
 
-            await WriteEventAsync(response, payload, cancellationToken);
+            Publish(payload);
         }
     }
 
-    private async Task StreamLogEventsAsync(
+    private async Task PumpLogEventsAsync(
         ChannelReader<LogEvent> reader,
-        HttpResponse response,
         CancellationToken cancellationToken)
     {
         await foreach (var logEvent in reader.ReadAllAsync(cancellationToken))
@@ -95,14 +256,145 @@ public sealed class SseEventBroadcaster(
                     kvp => kvp.Value.ToString())
             };
 
-            await WriteEventAsync(response, payload, cancellationToken);
+            Publish(payload);
         }
     }
 
-    private async Task WriteEventAsync(HttpResponse response, object payload, CancellationToken cancellationToken)
+    private void Publish(object payload)
     {
         var json = JsonConvert.SerializeObject(payload, _jsonSettings);
-        await response.WriteAsync($"data: {json}\n\n", cancellationToken);
+
+        lock (_lock)
+        {
+            var entry = new SseEntry(++_lastId, json);
+            _replay.Enqueue(entry);
+            if (_replay.Count > ReplayCapacity)
+            {
+                _replay.Dequeue();
+            }
+
+            foreach (var client in _clients)
+            {
+                client.TryWrite(entry);
+            }
+
+            _published.TrySetResult();
+            _published = new TaskCompletionSource(TaskCreationOptions.RunContinuationsAsynchronously);
+        }
+    }
+
+    /// <summary>
+    /// Registers a streaming client. Taking the backlog and registering under one lock
+    /// means no event is sent twice or skipped.
+    /// </summary>
+    private Subscription Subscribe(long? lastEventId, string? streamId)
+    {
+        var channel = Channel.CreateBounded<SseEntry>(new BoundedChannelOptions(ClientCapacity)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true,
+            SingleWriter = false
+        });
+
+        lock (_lock)
+        {
+            var after = ResumeAfter(lastEventId, streamId);
+            _clients.Add(channel.Writer);
+            return new Subscription(channel, [.. _replay.Where(entry => entry.Id > after)], after);
+        }
+    }
+
+    private void Unsubscribe(Subscription subscription)
+    {
+        lock (_lock)
+        {
+            _clients.Remove(subscription.Channel.Writer);
+        }
+    }
+
+    /// <summary>
+    /// The id a client resumes after: the latest one for a new client, all that is still
+    /// buffered for a client of a previous server process, otherwise its last received id.
+    /// Callers hold <see cref="_lock"/>.
+    /// </summary>
+    private long ResumeAfter(long? lastEventId, string? streamId) => lastEventId switch
+    {
+        null => _lastId,
+        _ when streamId is not null && streamId != _streamId => 0,
+        { } id => Math.Min(id, _lastId)
+    };
+
+    private string HelloJson(Subscription subscription) =>
+        JsonConvert.SerializeObject(new { streamId = _streamId, lastEventId = subscription.ResumeAfter }, _jsonSettings);
+
+    /// <summary>
+    /// Yields the backlog, then live events; null when nothing arrived for a heartbeat interval.
+    /// </summary>
+    private static async IAsyncEnumerable<SseEntry?> ReadEntriesAsync(
+        Subscription subscription,
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        foreach (var entry in subscription.Backlog)
+        {
+            yield return entry;
+        }
+
+        while (!cancellationToken.IsCancellationRequested)
+        {
+            yield return await ReadOrHeartbeatAsync(subscription.Channel.Reader, cancellationToken);
+        }
+    }
+
+    private static async Task<SseEntry?> ReadOrHeartbeatAsync(
+        ChannelReader<SseEntry> reader,
+        CancellationToken cancellationToken)
+    {
+        using var heartbeatCts = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+        heartbeatCts.CancelAfter(HeartbeatInterval);
+
+        try
+        {
+            return await reader.ReadAsync(heartbeatCts.Token);
+        }
+        catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Nothing is expected from the client; reading only notices when it closes.
+    /// </summary>
+    private static async Task ReceiveUntilClosedAsync(WebSocket socket, CancellationTokenSource closedCts)
+    {
+        var buffer = new byte[1024];
+        try
+        {
+            while (socket.State == WebSocketState.Open)
+            {
+                var result = await socket.ReceiveAsync(buffer, closedCts.Token);
+                if (result.MessageType == WebSocketMessageType.Close)
+                {
+                    break;
+                }
+            }
+        }
+        catch (Exception ex) when (ex is OperationCanceledException or WebSocketException)
+        {
+            // Closed from either side
+        }
+        finally
+        {
+            await closedCts.CancelAsync();
+        }
+    }
+
+    private static Task SendAsync(WebSocket socket, string message, CancellationToken cancellationToken) =>
+        socket.SendAsync(Encoding.UTF8.GetBytes(message), WebSocketMessageType.Text, true, cancellationToken);
+
+    private static async Task WriteAsync(HttpResponse response, string message, CancellationToken cancellationToken)
+    {
+        await response.WriteAsync(message, cancellationToken);
         await response.Body.FlushAsync(cancellationToken);
     }
 }
@@ -1,7 +1,12 @@
-import { useState } from 'react';
-import { useSse, useChat } from './hooks';
+import { useMemo, useState } from 'react';
+import { useSse, useChat, useReplay, usePricing, usePipelineEditor } from './hooks';
 import { usePipelines, usePipelineSchema } from './hooks/usePipelines';
-import { Header, PipelineGraph, ContextViewer, Chat, EventStream } from './components';
+import { selectLlmStream } from './services/runRegistry';
+import { sessionRecorder } from './services/sessionRecorder';
+import { summarizeUsage, formatCost } from './services/pricing';
+import { DEFAULT_STEP_TYPES } from './services/pipelineEditor';
+import { PipelineRun, SessionRecording } from './types';
+import { Header, PipelineGraph, ContextViewer, Chat, EventStream, InsightsPanel, ReplayControls, CostPanel, StepDetailDrawer, PipelineEditor, DefinitionDiffView, RunComparisonView, ConversationSidebar } from './components';
 
 /**
  * Main application component.
@@ -16,57 +21,272 @@ function App() {
         setSelectedPipeline(pipelines[0].name);
     }
 
-    const { schema: pipeline } = usePipelineSchema(selectedPipeline);
-    const { events, connected, status, activeSteps, completedSteps, failedSteps, context, clearEvents } = useSse();
-    const { messages, isProcessing, sendMessage } = useChat();
+    const { schema: livePipeline } = usePipelineSchema(selectedPipeline);
+    const chat = useChat();
+    const { messages, isProcessing, correlationId, sendMessage } = chat;
+    // Follow the run of the last chat response; runs are kept per correlationId
+    const live = useSse(undefined, correlationId);
+    const { connected, runs, selectedRunId, selectRun, cancelRun } = live;
+
+    // A loaded recording replaces the live run in the graph, context and event panels
+    const [recording, setRecording] = useState<SessionRecording | null>(null);
+    const replay = useReplay(recording);
+    const { events, status, activeSteps, completedSteps, failedSteps, interruptedSteps, context, snapshots, insights } = recording ? replay : live;
+    const pipeline = recording ? recording.pipeline : livePipeline;
+
+    // Live LLM output of the chat's own run, regardless of which run is displayed
+    const chatRun = runs.find(run => run.correlationId === correlationId);
+    const streamingResponse = useMemo(() => chatRun && selectLlmStream(chatRun), [chatRun]);
+    const runIds = useMemo(() => new Set(runs.map(run => run.correlationId)), [runs]);
+
+    // Token usage of the displayed run and of every live run this session
+    const { pricing, setModelPricing, removeModel, resetPricing } = usePricing();
+    const [showCosts, setShowCosts] = useState(false);
+    const runUsage = useMemo(() => summarizeUsage(insights.usage, pricing), [insights.usage, pricing]);
+    const sessionUsage = useMemo(
+        () => summarizeUsage(runs.flatMap(run => run.insights.usage), pricing),
+        [runs, pricing]
+    );
+
+    const { toolCalls, validations, routing } = insights;
+    const tagSpans = insights.tags.spans;
+
+    const [selectedStep, setSelectedStep] = useState<string | null>(null);
+
+    // Edit mode works on a draft copy; the graph previews the draft
+    const editor = usePipelineEditor();
+    const [editing, setEditing] = useState(false);
+    const stepTypes = pipeline?.stepTypes ?? DEFAULT_STEP_TYPES;
+    const displayedPipeline = editing ? editor.draft : pipeline;
+
+    const [comparing, setComparing] = useState(false);
+    const [comparingRuns, setComparingRuns] = useState(false);
+
+    const toggleEditing = () => {
+        if (!editing) editor.reset(pipeline);
+        setSelectedStep(null);
+        setEditing(!editing);
+    };
 
     const handleSendMessage = (message: string) => {
-        clearEvents(); // Clear previous events
+        selectRun(null); // Follow the new run
         sendMessage(message);
     };
 
+    // Aborting the request cancels the run on the server; the graph shows it at once
+    const handleStop = () => {
+        chat.cancel();
+        if (correlationId) cancelRun(correlationId);
+    };
+
+    // Resuming or starting a conversation goes back to following the latest run
+    const handleResumeConversation = (id: string) => {
+        selectRun(null);
+        chat.resumeConversation(id);
+    };
+
+    const handleNewConversation = () => {
+        selectRun(null);
+        chat.newConversation();
+    };
+
+    const exportLiveRun = async (run: PipelineRun) => {
+        try {
+            const events = await live.loadRunEvents(run);
+            sessionRecorder.download(sessionRecorder.fromRun({ ...run, events }, livePipeline));
+        } catch (err) {
+            console.error('Failed to export run:', err);
+        }
+    };
+
+    const handleExportRun = recording
+        ? () => sessionRecorder.download(recording)
+        : live.selectedRun
+            ? () => exportLiveRun(live.selectedRun!)
+            : undefined;
+
+    const handleLoadRecording = async (file: File) => {
+        try {
+            setRecording(await sessionRecorder.load(file));
+        } catch (err) {
+            console.error('Failed to load recording:', err);
+            alert(`Failed to load recording: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    };
+
     return (
-        <div className="flex flex-col h-screen bg-slate-100">
+        <div className="flex flex-col h-screen bg-slate-100 relative">
             {/* Header */}
             <Header
                 status={status}
                 connected={connected}
+                transport={live.transport}
+                onReconnect={live.reconnect}
                 eventsCount={events.length}
                 stepsCompleted={completedSteps.length}
                 pipelines={pipelines}
                 selectedPipeline={selectedPipeline}
                 onPipelineChange={setSelectedPipeline}
+                runs={runs}
+                selectedRunId={selectedRunId}
+                onRunChange={selectRun}
+                onExportRun={handleExportRun}
+                onLoadRecording={handleLoadRecording}
+                costLabel={formatCost(runUsage.total.cost)}
+                onCostClick={() => setShowCosts(!showCosts)}
+                editing={editing}
+                onEditPipeline={pipeline ? toggleEditing : undefined}
+                comparing={comparing}
+                onCompareDefinitions={() => setComparing(!comparing)}
+                comparingRuns={comparingRuns}
+                onCompareRuns={() => setComparingRuns(!comparingRuns)}
             />
 
+            {comparing && (
+                <div className="absolute inset-x-0 top-14 bottom-0 z-40">
+                    <DefinitionDiffView
+                        pipelines={pipelines}
+                        draft={editing ? editor.draft : null}
+                        onClose={() => setComparing(false)}
+                    />
+                </div>
+            )}
+
+            {comparingRuns && (
+                <div className="absolute inset-x-0 top-14 bottom-0 z-40">
+                    <RunComparisonView
+                        pipeline={livePipeline}
+                        runs={runs}
+                        loadRunEvents={live.loadRunEvents}
+                        onClose={() => setComparingRuns(false)}
+                    />
+                </div>
+            )}
+
+            {showCosts && (
+                <div className="absolute right-6 top-16 z-50">
+                    <CostPanel
+                        runUsage={runUsage}
+                        sessionUsage={sessionUsage}
+                        pricing={pricing}
+                        onPricingChange={setModelPricing}
+                        onPricingRemove={removeModel}
+                        onPricingReset={resetPricing}
+                        onClose={() => setShowCosts(false)}
+                    />
+                </div>
+            )}
+
+            {recording && (
+                <ReplayControls
+                    label={recording.correlationId?.substring(0, 8) ?? recording.recordedAt}
+                    playing={replay.playing}
+                    speed={replay.speed}
+                    position={replay.position}
+                    duration={replay.duration}
+                    onPlay={replay.play}
+                    onPause={replay.pause}
+                    onSeek={replay.seek}
+                    onSpeedChange={replay.setSpeed}
+                    onClose={() => setRecording(null)}
+                />
+            )}
+
             {/* Main Content - 2x2 Grid */}
             <div className="flex-1 grid grid-cols-[1fr_400px] grid-rows-[1fr_300px] overflow-hidden">
-                {/* Top Left: Pipeline Graph */}
-                <div className="bg-slate-100 border-r border-b border-slate-200">
+                {/* Top Left: Pipeline Graph + Insights */}
+                <div className="bg-slate-100 border-r border-b border-slate-200 grid grid-cols-[3fr_2fr] overflow-hidden relative">
                     <PipelineGraph
-                        pipeline={pipeline}
+                        pipeline={displayedPipeline}
                         activeSteps={activeSteps}
                         completedSteps={completedSteps}
                         failedSteps={failedSteps}
+                        interruptedSteps={interruptedSteps}
+                        toolCalls={toolCalls}
+                        tagSpans={tagSpans}
+                        validations={validations}
+                        routing={routing}
+                        selectedStep={selectedStep}
+                        onStepSelect={setSelectedStep}
                     />
+                    <div className="border-l border-slate-200 overflow-hidden">
+                        {editing && editor.draft ? (
+                            <PipelineEditor
+                                draft={editor.draft}
+                                stepTypes={stepTypes}
+                                selectedStep={selectedStep}
+                                onSelectStep={setSelectedStep}
+                                apply={editor.apply}
+                                undo={editor.undo}
+                                redo={editor.redo}
+                                canUndo={editor.canUndo}
+                                canRedo={editor.canRedo}
+                                onClose={toggleEditing}
+                            />
+                        ) : (
+                            <InsightsPanel
+                                pipeline={pipeline}
+                                events={events}
+                                toolCalls={toolCalls}
+                                tagSpans={tagSpans}
+                                validations={validations}
+                            />
+                        )}
+                    </div>
+
+                    {/* Step details slide over the insights panel */}
+                    {selectedStep && !editing && (
+                        <div className="absolute inset-y-0 right-0 w-[420px] max-w-full z-20">
+                            <StepDetailDrawer
+                                pipeline={pipeline}
+                                stepName={selectedStep}
+                                events={events}
+                                toolCalls={toolCalls}
+                                tagSpans={tagSpans}
+                                context={context}
+                                onClose={() => setSelectedStep(null)}
+                            />
+                        </div>
+                    )}
                 </div>
 
                 {/* Top Right: Chat */}
-                <div className="border-b border-slate-200 h-full">
-                    <Chat
-                        messages={messages}
-                        onSendMessage={handleSendMessage}
-                        isProcessing={isProcessing}
-                    />
+                <div className="border-b border-slate-200 h-full overflow-hidden">
+                    <ConversationSidebar
+                        conversations={chat.conversations}
+                        active={chat.activeConversation}
+                        disabled={isProcessing}
+                        onNew={handleNewConversation}
+                        onResume={handleResumeConversation}
+                        onRename={chat.renameConversation}
+                        onDelete={chat.deleteConversation}
+                    >
+                        <Chat
+                            key={chat.activeConversation.id}
+                            messages={messages}
+                            onSendMessage={handleSendMessage}
+                            isProcessing={isProcessing}
+                            streamingResponse={streamingResponse}
+                            onSelectRun={selectRun}
+                            runIds={runIds}
+                            onStop={handleStop}
+                        />
+                    </ConversationSidebar>
                 </div>
 
                 {/* Bottom Left: Context Viewer */}
                 <div className="border-r border-slate-200">
-                    <ContextViewer context={context} />
+                    <ContextViewer snapshots={snapshots} />
                 </div>
 
                 {/* Bottom Right: Event Stream */}
                 <div>
-                    <EventStream events={events} />
+                    <EventStream
+                        events={events}
+                        gaps={recording ? undefined : live.gaps}
+                        diagnostics={recording ? undefined : live.diagnostics}
+                        droppedCount={recording ? undefined : live.selectedRun?.droppedEvents}
+                    />
                 </div>
             </div>
         </div>
@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Virtuoso } from 'react-virtuoso';
 import {
     MessageInput,
@@ -5,13 +6,20 @@ import {
     Avatar,
 } from '@chatscope/chat-ui-kit-react';
 import '@chatscope/chat-ui-kit-styles/dist/default/styles.min.css';
-import { ChatMessage } from '../../types';
-import { Bot, User } from 'lucide-react';
+import { ChatMessage, LlmStream } from '../../types';
+import { Bot, User, ChevronDown, ChevronRight, Loader2, Activity, Square } from 'lucide-react';
 
 interface ChatProps {
     messages: ChatMessage[];
     onSendMessage: (message: string) => void;
     isProcessing: boolean;
+    /** Live output of the in-flight run, shown until the final response arrives. */
+    streamingResponse?: LlmStream;
+    /** Shows the events of a message's run; only runs seen in this session can be shown. */
+    onSelectRun?: (correlationId: string) => void;
+    runIds?: Set<string>;
+    /** Cancels the in-flight run; shown as a Stop button while processing. */
+    onStop?: () => void;
 }
 
 /**
@@ -19,7 +27,18 @@ interface ChatProps {
  * Uses chatscope for UI bubbles and react-virtuoso for performance/scrolling.
  * Layout uses standard flex divs to avoid conflicts with ChatScope containers.
  */
-export function Chat({ messages, onSendMessage, isProcessing }: ChatProps) {
+export function Chat({ messages, onSendMessage, isProcessing, streamingResponse, onSelectRun, runIds, onStop }: ChatProps) {
+    const items: ChatMessage[] = isProcessing && streamingResponse
+        ? [...messages, {
+            id: 'streaming',
+            role: 'assistant',
+            content: streamingResponse.content,
+            reasoning: streamingResponse.reasoning,
+            timestamp: new Date(),
+            isStreaming: true,
+        }]
+        : messages;
+
     return (
         <div className="flex flex-col h-full bg-white">
             {/* Message List Area */}
@@ -31,14 +50,14 @@ export function Chat({ messages, onSendMessage, isProcessing }: ChatProps) {
                 ) : (
                     <Virtuoso
                         className="h-full"
-                        data={messages}
+                        data={items}
                         followOutput="smooth"
-                        initialTopMostItemIndex={messages.length - 1}
+                        initialTopMostItemIndex={items.length - 1}
                         itemContent={(_, msg) => (
                             <div className="px-4 py-2">
                                 <Message
                                     model={{
-                                        message: msg.content,
+                                        message: msg.isStreaming ? undefined : msg.content,
                                         sentTime: msg.timestamp.toLocaleTimeString(),
                                         sender: msg.role === 'user' ? 'You' : 'AI',
                                         direction: msg.role === 'user' ? 'outgoing' : 'incoming',
@@ -60,7 +79,27 @@ export function Chat({ messages, onSendMessage, isProcessing }: ChatProps) {
                                             )}
                                         </div>
                                     </Avatar>
+                                    {msg.isStreaming && (
+                                        <Message.CustomContent>
+                                            <StreamingContent
+                                                stepName={streamingResponse?.stepName}
+                                                content={msg.content}
+                                                reasoning={msg.reasoning}
+                                            />
+                                        </Message.CustomContent>
+                                    )}
                                 </Message>
+                                {msg.role !== 'user' && msg.correlationId && onSelectRun && (
+                                    <button
+                                        onClick={() => onSelectRun(msg.correlationId!)}
+                                        disabled={!runIds?.has(msg.correlationId)}
+                                        className="ml-12 mt-0.5 flex items-center gap-1 text-[10px] font-mono text-gray-400 hover:text-blue-600 disabled:hover:text-gray-400 disabled:cursor-default"
+                                        title={runIds?.has(msg.correlationId) ? 'Show this run' : 'Run events are not available in this session'}
+                                    >
+                                        <Activity className="w-3 h-3" />
+                                        {msg.correlationId.substring(0, 8)}
+                                    </button>
+                                )}
                             </div>
                         )}
                     />
@@ -68,15 +107,72 @@ export function Chat({ messages, onSendMessage, isProcessing }: ChatProps) {
             </div>
 
             {/* Input Area */}
-            <div className="border-t border-gray-200 p-4 bg-gray-50">
+            <div className="border-t border-gray-200 p-4 bg-gray-50 flex items-center gap-2">
                 <MessageInput
                     placeholder={isProcessing ? 'Processing...' : 'Type your message...'}
                     onSend={onSendMessage}
                     disabled={isProcessing}
                     attachButton={false}
                     sendButton={true}
-                    className="!bg-white !rounded-xl border border-gray-300 shadow-sm"
+                    className="flex-1 !bg-white !rounded-xl border border-gray-300 shadow-sm"
                 />
+                {isProcessing && onStop && (
+                    <button
+                        onClick={onStop}
+                        className="px-3 py-2 rounded-xl bg-red-500 hover:bg-red-600 text-white text-sm font-medium flex items-center gap-1.5 shadow-sm"
+                        title="Stop the running pipeline"
+                    >
+                        <Square className="w-3.5 h-3.5 fill-current" />
+                        Stop
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
+
+interface StreamingContentProps {
+    stepName?: string;
+    content: string;
+    reasoning?: string;
+}
+
+/**
+ * Body of the in-flight assistant bubble: streamed text plus a collapsible reasoning section.
+ */
+function StreamingContent({ stepName, content, reasoning }: StreamingContentProps) {
+    const [showReasoning, setShowReasoning] = useState(false);
+
+    return (
+        <div className="text-sm">
+            <div className="flex items-center gap-1.5 text-xs text-purple-500 mb-1">
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>{stepName || 'Processing'}</span>
+            </div>
+
+            {reasoning && (
+                <div className="mb-2">
+                    <button
+                        onClick={() => setShowReasoning(!showReasoning)}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                    >
+                        {showReasoning ? (
+                            <ChevronDown className="w-3 h-3" />
+                        ) : (
+                            <ChevronRight className="w-3 h-3" />
+                        )}
+                        Reasoning
+                    </button>
+                    {showReasoning && (
+                        <div className="mt-1 pl-3 border-l-2 border-gray-200 text-xs text-gray-500 italic whitespace-pre-wrap break-words">
+                            {reasoning}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <div className="whitespace-pre-wrap break-words">
+                {content || '...'}
             </div>
         </div>
     );
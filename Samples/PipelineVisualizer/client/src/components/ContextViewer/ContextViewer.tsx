@@ -1,36 +1,27 @@
-import { useState } from 'react';
-import { ContextSnapshot } from '../../types';
-import { Database, ChevronDown, ChevronRight } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { ContextChange, ContextDiff, ContextSnapshot } from '../../types';
+import { Database, ChevronDown, ChevronRight, Search } from 'lucide-react';
+import { countChanges, diffSnapshots } from '../../services/contextDiff';
+import { JsonTree } from './JsonTree';
 
 interface ContextViewerProps {
-    context?: ContextSnapshot;
+    snapshots: ContextSnapshot[];
 }
 
-interface ContextEntry {
-    timestamp: number;
-    path: string;
-    data: ContextSnapshot;
-}
-
-// Store accumulated context entries
-const contextHistory: ContextEntry[] = [];
-
 /**
- * Displays accumulated PipelineContext snapshots with collapsible boxes.
+ * Displays the displayed run's PipelineContext snapshots with collapsible boxes,
+ * each showing what changed since the previous snapshot.
  */
-export function ContextViewer({ context }: ContextViewerProps) {
-    // Add new context to history
-    if (context && !contextHistory.some(entry =>
-        entry.timestamp === Date.now() && entry.path === context.currentPath
-    )) {
-        contextHistory.push({
-            timestamp: Date.now(),
-            path: context.currentPath || 'unknown',
-            data: context
-        });
-    }
+export function ContextViewer({ snapshots }: ContextViewerProps) {
+    const [search, setSearch] = useState('');
+
+    const diffs = useMemo(
+        () => snapshots.map((snapshot, index) => diffSnapshots(snapshots[index - 1], snapshot)),
+        [snapshots]
+    );
 
-    if (contextHistory.length === 0) {
+    if (snapshots.length === 0) {
         return (
             <div className="h-full flex items-center justify-center bg-gray-50 text-gray-400 text-sm">
                 No context snapshots yet
@@ -43,14 +34,29 @@ export function ContextViewer({ context }: ContextViewerProps) {
             <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
                 <Database className="w-4 h-4 text-blue-500" />
                 <span className="text-sm font-medium text-gray-700">Context Snapshots</span>
-                <span className="ml-auto text-xs text-gray-500">
-                    {contextHistory.length} snapshots
+                <div className="ml-auto flex items-center gap-1 px-2 py-0.5 bg-white border border-gray-200 rounded">
+                    <Search className="w-3 h-3 text-gray-400" />
+                    <input
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="Search keys and values"
+                        className="w-40 text-xs outline-none"
+                    />
+                </div>
+                <span className="text-xs text-gray-500">
+                    {snapshots.length} snapshots
                 </span>
             </div>
 
             <div className="flex-1 overflow-y-auto p-2 space-y-2">
-                {contextHistory.map((entry, index) => (
-                    <ContextBox key={index} entry={entry} index={index} />
+                {snapshots.map((snapshot, index) => (
+                    <ContextBox
+                        key={index}
+                        snapshot={snapshot}
+                        diff={diffs[index]}
+                        index={index}
+                        search={search}
+                    />
                 ))}
             </div>
         </div>
@@ -58,13 +64,16 @@ export function ContextViewer({ context }: ContextViewerProps) {
 }
 
 interface ContextBoxProps {
-    entry: ContextEntry;
+    snapshot: ContextSnapshot;
+    diff: ContextDiff;
     index: number;
+    search: string;
 }
 
-function ContextBox({ entry, index }: ContextBoxProps) {
+function ContextBox({ snapshot, diff, index, search }: ContextBoxProps) {
     const [isExpanded, setIsExpanded] = useState(false);
-    const time = new Date(entry.timestamp).toLocaleTimeString();
+    const time = snapshot.timestamp ? new Date(snapshot.timestamp).toLocaleTimeString() : '';
+    const changeCount = countChanges(diff);
 
     return (
         <div className="border border-gray-200 rounded-lg overflow-hidden bg-white shadow-sm">
@@ -80,22 +89,85 @@ function ContextBox({ entry, index }: ContextBoxProps) {
                 )}
                 <div className="flex-1 min-w-0">
                     <div className="text-xs font-medium text-gray-700 truncate">
-                        #{index + 1} - {entry.path}
+                        #{index + 1} - {snapshot.stepName ?? snapshot.currentPath ?? 'unknown'}
                     </div>
                     <div className="text-xs text-gray-500">
                         {time}
                     </div>
                 </div>
+                <span className={clsx(
+                    'px-1.5 py-0.5 rounded text-[10px] font-medium shrink-0',
+                    changeCount > 0 ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'
+                )}>
+                    {changeCount} {changeCount === 1 ? 'change' : 'changes'}
+                </span>
             </button>
 
             {/* Expanded Content */}
             {isExpanded && (
-                <div className="p-3 bg-slate-50">
-                    <pre className="text-xs font-mono text-gray-700 overflow-x-auto whitespace-pre-wrap break-words">
-                        {JSON.stringify(entry.data, null, 2)}
-                    </pre>
+                <div className="p-3 bg-slate-50 space-y-3">
+                    {changeCount > 0 && (
+                        <div className="space-y-1">
+                            <ChangeList title="stepResults" changes={diff.stepResults} />
+                            <ChangeList title="metadata" changes={diff.metadata} />
+                        </div>
+                    )}
+                    <JsonTree data={snapshot} search={search} />
                 </div>
             )}
         </div>
     );
 }
+
+const changeStyles: Record<ContextChange['kind'], string> = {
+    added: 'bg-green-50 text-green-700 border-green-200',
+    changed: 'bg-amber-50 text-amber-700 border-amber-200',
+    removed: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const changeSymbols: Record<ContextChange['kind'], string> = {
+    added: '+',
+    changed: '~',
+    removed: '-',
+};
+
+function ChangeList({ title, changes }: { title: string; changes: ContextChange[] }) {
+    if (changes.length === 0) return null;
+
+    return (
+        <div>
+            <div className="text-[10px] font-semibold uppercase text-gray-500 mb-0.5">{title}</div>
+            <div className="space-y-0.5">
+                {changes.map(change => (
+                    <div
+                        key={change.key}
+                        className={clsx('px-2 py-1 rounded border text-xs font-mono', changeStyles[change.kind])}
+                        title={describeChange(change)}
+                    >
+                        <span className="font-bold mr-1">{changeSymbols[change.kind]}</span>
+                        {change.key}
+                        <span className="ml-2 opacity-70 truncate">{previewChange(change)}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function previewChange(change: ContextChange): string {
+    const preview = (value: unknown) => {
+        const text = JSON.stringify(value) ?? 'undefined';
+        return text.length > 60 ? `${text.substring(0, 60)}…` : text;
+    };
+
+    if (change.kind === 'added') return preview(change.after);
+    if (change.kind === 'removed') return preview(change.before);
+    return `${preview(change.before)} → ${preview(change.after)}`;
+}
+
+function describeChange(change: ContextChange): string {
+    return [
+        change.before !== undefined ? `before: ${JSON.stringify(change.before, null, 2)}` : '',
+        change.after !== undefined ? `after: ${JSON.stringify(change.after, null, 2)}` : '',
+    ].filter(Boolean).join('\n');
+}
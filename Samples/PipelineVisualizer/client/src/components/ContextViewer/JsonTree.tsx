@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+
+interface JsonTreeProps {
+    data: unknown;
+    /** Path prefix used by "copy path" (e.g. "stepResults"). */
+    rootPath?: string;
+    search?: string;
+}
+
+/**
+ * Collapsible JSON tree. Branches containing a search match open automatically;
+ * every node offers copying its path and value.
+ */
+export function JsonTree({ data, rootPath = '', search = '' }: JsonTreeProps) {
+    return (
+        <div className="font-mono text-xs text-gray-700">
+            <JsonNode value={data} path={rootPath} depth={0} search={search.toLowerCase()} />
+        </div>
+    );
+}
+
+interface JsonNodeProps {
+    name?: string;
+    value: unknown;
+    path: string;
+    depth: number;
+    search: string;
+}
+
+function JsonNode({ name, value, path, depth, search }: JsonNodeProps) {
+    const [toggled, setToggled] = useState<boolean | undefined>();
+    const isBranch = value !== null && typeof value === 'object';
+
+    if (!isBranch) {
+        return (
+            <NodeRow name={name} path={path} value={value} depth={depth} search={search}>
+                <Highlighted text={formatScalar(value)} search={search} className={scalarColor(value)} />
+            </NodeRow>
+        );
+    }
+
+    const entries = Array.isArray(value)
+        ? value.map((item, index) => [String(index), item] as const)
+        : Object.entries(value as Record<string, unknown>);
+    const autoExpanded = depth < 1 || (search.length > 0 && containsMatch(value, search));
+    const expanded = toggled ?? autoExpanded;
+    const summary = Array.isArray(value) ? `[${entries.length}]` : `{${entries.length}}`;
+
+    return (
+        <div>
+            <NodeRow name={name} path={path} value={value} depth={depth} search={search} onToggle={() => setToggled(!expanded)} expanded={expanded}>
+                <span className="text-gray-400">{summary}</span>
+            </NodeRow>
+            {expanded && entries.map(([key, child]) => (
+                <JsonNode
+                    key={key}
+                    name={key}
+                    value={child}
+                    path={childPath(path, key, Array.isArray(value))}
+                    depth={depth + 1}
+                    search={search}
+                />
+            ))}
+        </div>
+    );
+}
+
+interface NodeRowProps {
+    name?: string;
+    path: string;
+    value: unknown;
+    depth: number;
+    search: string;
+    expanded?: boolean;
+    onToggle?: () => void;
+    children: React.ReactNode;
+}
+
+function NodeRow({ name, path, value, depth, search, expanded, onToggle, children }: NodeRowProps) {
+    return (
+        <div
+            className="group flex items-start gap-1 py-0.5 hover:bg-slate-100 rounded"
+            style={{ paddingLeft: depth * 14 }}
+        >
+            <button
+                onClick={onToggle}
+                className={clsx('w-3 h-4 shrink-0 text-gray-400', !onToggle && 'invisible')}
+            >
+                {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+            {name !== undefined && (
+                <>
+                    <Highlighted text={name} search={search} className="text-slate-800" />
+                    <span className="text-gray-400">:</span>
+                </>
+            )}
+            <div className="flex-1 min-w-0 break-words">{children}</div>
+            <div className="hidden group-hover:flex gap-1 shrink-0 text-[10px]">
+                {path && <CopyButton label="path" text={path} />}
+                <CopyButton label="value" text={typeof value === 'string' ? value : JSON.stringify(value, null, 2)} />
+            </div>
+        </div>
+    );
+}
+
+function CopyButton({ label, text }: { label: string; text: string }) {
+    const [copied, setCopied] = useState(false);
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(text);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1000);
+        } catch (err) {
+            console.error('Copy failed:', err);
+        }
+    };
+
+    return (
+        <button onClick={copy} className="px-1 rounded bg-white border border-gray-200 text-gray-500 hover:text-blue-600">
+            {copied ? 'copied' : label}
+        </button>
+    );
+}
+
+function Highlighted({ text, search, className }: { text: string; search: string; className?: string }) {
+    const index = search ? text.toLowerCase().indexOf(search) : -1;
+    if (index < 0) {
+        return <span className={className}>{text}</span>;
+    }
+
+    return (
+        <span className={className}>
+            {text.substring(0, index)}
+            <mark className="bg-yellow-200 rounded-sm">{text.substring(index, index + search.length)}</mark>
+            {text.substring(index + search.length)}
+        </span>
+    );
+}
+
+function containsMatch(value: unknown, search: string): boolean {
+    return JSON.stringify(value).toLowerCase().includes(search);
+}
+
+function childPath(path: string, key: string, isArrayIndex: boolean): string {
+    if (isArrayIndex) return `${path}[${key}]`;
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) return path ? `${path}.${key}` : key;
+    return `${path}[${JSON.stringify(key)}]`;
+}
+
+function formatScalar(value: unknown): string {
+    return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+function scalarColor(value: unknown): string {
+    if (typeof value === 'string') return 'text-green-700';
+    if (typeof value === 'number') return 'text-blue-700';
+    if (typeof value === 'boolean') return 'text-purple-700';
+    return 'text-gray-400';
+}
@@ -1 +1,2 @@
 export { ContextViewer } from './ContextViewer';
+export { JsonTree } from './JsonTree';
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { History, Plus, Pencil, Trash2, MessageSquare } from 'lucide-react';
+import { Conversation } from '../../types';
+import { conversationTitle } from '../../services/conversationStore';
+
+interface ConversationSidebarProps {
+    conversations: Conversation[];
+    active: Conversation;
+    /** Switching is blocked while a message is in flight. */
+    disabled: boolean;
+    onNew: () => void;
+    onResume: (id: string) => void;
+    onRename: (id: string, title: string) => void;
+    onDelete: (id: string) => void;
+    /** The chat, covered by the list while it is open. */
+    children: React.ReactNode;
+}
+
+/**
+ * Title bar of the chat with the list of stored conversations, which slides
+ * over the chat to resume, rename or delete one.
+ */
+export function ConversationSidebar({
+    conversations,
+    active,
+    disabled,
+    onNew,
+    onResume,
+    onRename,
+    onDelete,
+    children,
+}: ConversationSidebarProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const startRename = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversationTitle(conversation));
+    };
+
+    const commitRename = () => {
+        if (editingId && draftTitle.trim()) onRename(editingId, draftTitle);
+        setEditingId(null);
+    };
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="px-3 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <button
+                    onClick={() => setIsOpen(!isOpen)}
+                    className={clsx('p-1 rounded hover:bg-gray-200', isOpen ? 'text-blue-600' : 'text-gray-500')}
+                    title="Conversations"
+                >
+                    <History className="w-4 h-4" />
+                </button>
+                <span className="flex-1 text-sm font-medium text-gray-700 truncate">{conversationTitle(active)}</span>
+                {active.conversationId && (
+                    <span className="text-[10px] font-mono text-gray-400" title={`Conversation ${active.conversationId}`}>
+                        {active.conversationId.substring(0, 8)}
+                    </span>
+                )}
+                <button
+                    onClick={() => { onNew(); setIsOpen(false); }}
+                    disabled={disabled}
+                    className="p-1 rounded text-gray-500 hover:bg-gray-200 disabled:opacity-40"
+                    title="New conversation"
+                >
+                    <Plus className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0 relative">
+                {children}
+                {isOpen && (
+                    <div className="absolute inset-0 z-10 bg-white overflow-y-auto">
+                        {conversations.length === 0 ? (
+                            <div className="p-4 text-center text-sm text-gray-400">No saved conversations</div>
+                        ) : (
+                            conversations.map((conversation) => (
+                                <div
+                                    key={conversation.id}
+                                    onClick={() => {
+                                        if (disabled || editingId) return;
+                                        onResume(conversation.id);
+                                        setIsOpen(false);
+                                    }}
+                                    className={clsx(
+                                        'group px-3 py-2 border-b border-gray-100 flex items-center gap-2',
+                                        conversation.id === active.id ? 'bg-blue-50' : 'hover:bg-gray-50',
+                                        disabled ? 'cursor-not-allowed' : 'cursor-pointer'
+                                    )}
+                                >
+                                    <MessageSquare className="w-4 h-4 text-gray-400 shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        {editingId === conversation.id ? (
+                                            <input
+                                                autoFocus
+                                                value={draftTitle}
+                                                onChange={(e) => setDraftTitle(e.target.value)}
+                                                onClick={(e) => e.stopPropagation()}
+                                                onBlur={commitRename}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') commitRename();
+                                                    if (e.key === 'Escape') setEditingId(null);
+                                                }}
+                                                className="w-full px-1.5 py-0.5 rounded border border-slate-300 text-sm focus:outline-none focus:ring-1 focus:ring-blue-400"
+                                            />
+                                        ) : (
+                                            <div className="text-sm text-gray-700 truncate">{conversationTitle(conversation)}</div>
+                                        )}
+                                        <div className="text-[11px] text-gray-400">
+                                            {new Date(conversation.updatedAt).toLocaleString()} · {conversation.messages.length} messages
+                                        </div>
+                                    </div>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); startRename(conversation); }}
+                                        className="p-1 text-gray-400 hover:text-gray-700 opacity-0 group-hover:opacity-100"
+                                        title="Rename"
+                                    >
+                                        <Pencil className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            if (window.confirm(`Delete "${conversationTitle(conversation)}"?`)) onDelete(conversation.id);
+                                        }}
+                                        disabled={disabled && conversation.id === active.id}
+                                        className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 disabled:hidden"
+                                        title="Delete"
+                                    >
+                                        <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { ConversationSidebar } from './ConversationSidebar';
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Coins, X, Plus, Trash2, RotateCcw } from 'lucide-react';
+import { ModelPricing, PricingTable, UsageBucket, UsageSummary } from '../../types';
+import { formatCost } from '../../services/pricing';
+
+interface CostPanelProps {
+    runUsage: UsageSummary;
+    sessionUsage: UsageSummary;
+    pricing: PricingTable;
+    onPricingChange: (model: string, pricing: ModelPricing) => void;
+    onPricingRemove: (model: string) => void;
+    onPricingReset: () => void;
+    onClose: () => void;
+}
+
+type Scope = 'run' | 'session';
+
+/**
+ * Token usage and estimated cost broken down by step, model and provider,
+ * with an editor for the local pricing table.
+ */
+export function CostPanel({
+    runUsage,
+    sessionUsage,
+    pricing,
+    onPricingChange,
+    onPricingRemove,
+    onPricingReset,
+    onClose
+}: CostPanelProps) {
+    const [scope, setScope] = useState<Scope>('run');
+    const usage = scope === 'run' ? runUsage : sessionUsage;
+    const unpricedModels = Object.entries(sessionUsage.byModel)
+        .filter(([model, bucket]) => !bucket.priced && model !== 'unknown')
+        .map(([model]) => model);
+
+    return (
+        <div className="w-[560px] max-h-[75vh] flex flex-col bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <Coins className="w-4 h-4 text-emerald-500" />
+                <span className="text-sm font-medium text-gray-700">Token Usage & Cost</span>
+                <div className="ml-auto flex rounded-md border border-gray-200 overflow-hidden text-xs">
+                    {(['run', 'session'] as Scope[]).map(value => (
+                        <button
+                            key={value}
+                            onClick={() => setScope(value)}
+                            className={clsx(
+                                'px-3 py-1 capitalize',
+                                scope === value ? 'bg-emerald-100 text-emerald-700' : 'text-gray-600 hover:bg-gray-100'
+                            )}
+                        >
+                            {value}
+                        </button>
+                    ))}
+                </div>
+                <button onClick={onClose} className="p-1 rounded text-gray-500 hover:bg-gray-100" title="Close">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <div className="flex gap-6">
+                    <Stat label="Tokens" value={usage.total.tokens.toLocaleString()} />
+                    <Stat label="LLM calls" value={usage.total.calls.toString()} />
+                    <Stat label="Est. cost" value={formatCost(usage.total.cost)} warn={!usage.total.priced} />
+                </div>
+                <p className="text-[11px] text-gray-400">
+                    Costs are estimates: events report total tokens only, priced at the mean of input and output rates.
+                </p>
+
+                <UsageTable title="By step" buckets={usage.byStep} />
+                <UsageTable title="By model" buckets={usage.byModel} />
+                <UsageTable title="By provider" buckets={usage.byProvider} />
+
+                <PricingEditor
+                    pricing={pricing}
+                    suggestions={unpricedModels}
+                    onChange={onPricingChange}
+                    onRemove={onPricingRemove}
+                    onReset={onPricingReset}
+                />
+            </div>
+        </div>
+    );
+}
+
+function Stat({ label, value, warn }: { label: string; value: string; warn?: boolean }) {
+    return (
+        <div className="flex flex-col">
+            <span className={clsx('text-lg font-bold', warn ? 'text-amber-600' : 'text-slate-800')}>{value}</span>
+            <span className="text-xs text-gray-500">{label}{warn ? ' (partial)' : ''}</span>
+        </div>
+    );
+}
+
+function UsageTable({ title, buckets }: { title: string; buckets: Record<string, UsageBucket> }) {
+    const entries = Object.entries(buckets).sort(([, a], [, b]) => b.tokens - a.tokens);
+
+    return (
+        <div>
+            <h3 className="text-xs font-semibold text-gray-500 uppercase mb-1">{title}</h3>
+            {entries.length === 0 ? (
+                <div className="text-xs text-gray-400">No token usage yet</div>
+            ) : (
+                <table className="w-full text-xs">
+                    <tbody>
+                        {entries.map(([name, bucket]) => (
+                            <tr key={name} className="border-b border-gray-100">
+                                <td className="py-1 text-gray-700 truncate max-w-[220px]" title={name}>{name}</td>
+                                <td className="py-1 text-right text-gray-500">{bucket.calls}×</td>
+                                <td className="py-1 text-right font-mono text-gray-700">{bucket.tokens.toLocaleString()}</td>
+                                <td
+                                    className={clsx('py-1 text-right font-mono', bucket.priced ? 'text-emerald-700' : 'text-amber-600')}
+                                    title={bucket.priced ? undefined : 'Some calls have no price in the table'}
+                                >
+                                    {formatCost(bucket.cost)}{bucket.priced ? '' : '*'}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
+interface PricingEditorProps {
+    pricing: PricingTable;
+    suggestions: string[];
+    onChange: (model: string, pricing: ModelPricing) => void;
+    onRemove: (model: string) => void;
+    onReset: () => void;
+}
+
+function PricingEditor({ pricing, suggestions, onChange, onRemove, onReset }: PricingEditorProps) {
+    const [newModel, setNewModel] = useState('');
+
+    const addModel = (model: string) => {
+        const name = model.trim();
+        if (!name || pricing[name]) return;
+        onChange(name, { inputTokenPricePerMillion: 0, outputTokenPricePerMillion: 0 });
+        setNewModel('');
+    };
+
+    return (
+        <div>
+            <div className="flex items-center mb-1">
+                <h3 className="text-xs font-semibold text-gray-500 uppercase">Pricing (USD per million tokens)</h3>
+                <button
+                    onClick={onReset}
+                    className="ml-auto flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700"
+                    title="Restore reference prices"
+                >
+                    <RotateCcw className="w-3 h-3" />
+                    Reset
+                </button>
+            </div>
+
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-gray-400">
+                        <th className="text-left font-normal py-1">Model</th>
+                        <th className="text-right font-normal py-1">Input</th>
+                        <th className="text-right font-normal py-1">Output</th>
+                        <th />
+                    </tr>
+                </thead>
+                <tbody>
+                    {Object.entries(pricing).map(([model, price]) => (
+                        <tr key={model} className="border-b border-gray-100">
+                            <td className="py-1 text-gray-700">{model}</td>
+                            <td className="py-1 text-right">
+                                <PriceInput
+                                    value={price.inputTokenPricePerMillion}
+                                    onChange={(value) => onChange(model, { ...price, inputTokenPricePerMillion: value })}
+                                />
+                            </td>
+                            <td className="py-1 text-right">
+                                <PriceInput
+                                    value={price.outputTokenPricePerMillion}
+                                    onChange={(value) => onChange(model, { ...price, outputTokenPricePerMillion: value })}
+                                />
+                            </td>
+                            <td className="py-1 text-right">
+                                <button onClick={() => onRemove(model)} className="p-1 text-gray-400 hover:text-red-500" title="Remove">
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="flex items-center gap-2 mt-2">
+                <input
+                    value={newModel}
+                    onChange={(e) => setNewModel(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addModel(newModel)}
+                    placeholder="Model name"
+                    className="flex-1 border border-gray-200 rounded px-2 py-1 text-xs"
+                />
+                <button
+                    onClick={() => addModel(newModel)}
+                    className="flex items-center gap-1 px-2 py-1 rounded bg-emerald-50 text-emerald-700 text-xs hover:bg-emerald-100"
+                >
+                    <Plus className="w-3 h-3" />
+                    Add
+                </button>
+            </div>
+
+            {suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-2 text-xs">
+                    <span className="text-amber-600">Unpriced:</span>
+                    {suggestions.map(model => (
+                        <button
+                            key={model}
+                            onClick={() => addModel(model)}
+                            className="px-1.5 py-0.5 rounded bg-amber-50 text-amber-700 hover:bg-amber-100"
+                        >
+                            + {model}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
+function PriceInput({ value, onChange }: { value: number; onChange: (value: number) => void }) {
+    return (
+        <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value) || 0)}
+            className="w-20 border border-gray-200 rounded px-1 py-0.5 text-right font-mono"
+        />
+    );
+}
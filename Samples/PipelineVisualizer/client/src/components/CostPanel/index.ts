@@ -0,0 +1 @@
+export { CostPanel } from './CostPanel';
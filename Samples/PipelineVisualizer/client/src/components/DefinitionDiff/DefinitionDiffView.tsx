@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { GitCompare, X, ArrowRight, CircleAlert } from 'lucide-react';
+import { PipelineDefinition } from '../../types';
+import { apiClient } from '../../services/apiClient';
+import { countStepChanges, diffDefinitions, loadDefinitionFile } from '../../services/definitionDiff';
+import { PipelineGraph } from '../PipelineGraph';
+import { diffStyles } from '../PipelineGraph/DiffTooltip';
+
+interface DefinitionDiffViewProps {
+    pipelines: { name: string; version: string }[];
+    /** The edit mode draft, offered as a source while editing. */
+    draft?: PipelineDefinition | null;
+    onClose: () => void;
+}
+
+/** Value of a source option: "schema:<name>", "live", "draft" or "file". */
+type SourceKey = string;
+
+/**
+ * Compares two pipeline definitions in one merged graph. Each side is a
+ * registered pipeline's schema, the served pipeline-definition.json, the edit
+ * mode draft or a local file.
+ */
+export function DefinitionDiffView({ pipelines, draft, onClose }: DefinitionDiffViewProps) {
+    const [before, setBefore] = useState<PipelineDefinition | null>(null);
+    const [after, setAfter] = useState<PipelineDefinition | null>(null);
+    const firstSchema: SourceKey = pipelines.length > 0 ? `schema:${pipelines[0].name}` : 'live';
+
+    const diff = useMemo(() => before && after ? diffDefinitions(before, after) : null, [before, after]);
+    const counts = diff && countStepChanges(diff);
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-3">
+                <GitCompare className="w-4 h-4 text-blue-500" />
+                <span className="text-sm font-medium text-gray-700">Compare Definitions</span>
+                <SourcePicker pipelines={pipelines} draft={draft} initial={firstSchema} onLoad={setBefore} />
+                <ArrowRight className="w-4 h-4 text-gray-400" />
+                <SourcePicker pipelines={pipelines} draft={draft} initial={draft ? 'draft' : 'live'} onLoad={setAfter} />
+
+                {counts && (
+                    <div className="ml-auto flex gap-2 text-xs">
+                        {(['added', 'removed', 'modified'] as const).map(kind => (
+                            <span key={kind} className={clsx('px-2 py-0.5 rounded-full border', diffStyles[kind].badge)}>
+                                {diffStyles[kind].symbol} {counts[kind]} {kind}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <button onClick={onClose} className={clsx('p-1 rounded text-gray-500 hover:bg-gray-100', !counts && 'ml-auto')} title="Close">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-0">
+                <PipelineGraph
+                    pipeline={diff?.merged ?? null}
+                    activeSteps={[]}
+                    completedSteps={[]}
+                    diff={diff?.steps}
+                />
+            </div>
+        </div>
+    );
+}
+
+interface SourcePickerProps {
+    pipelines: { name: string; version: string }[];
+    draft?: PipelineDefinition | null;
+    initial: SourceKey;
+    onLoad: (definition: PipelineDefinition | null) => void;
+}
+
+function SourcePicker({ pipelines, draft, initial, onLoad }: SourcePickerProps) {
+    const [source, setSource] = useState<SourceKey>(initial);
+    const [file, setFile] = useState<PipelineDefinition | null>(null);
+    const [error, setError] = useState<string>();
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setError(undefined);
+
+        const load = async (): Promise<PipelineDefinition | null> => {
+            if (source === 'draft') return draft ?? null;
+            if (source === 'file') return file;
+            if (source === 'live') return apiClient.getPipeline();
+            return apiClient.getPipelineSchema(source.substring('schema:'.length));
+        };
+
+        load()
+            .then(definition => !cancelled && onLoad(definition))
+            .catch(err => {
+                if (cancelled) return;
+                setError(err instanceof Error ? err.message : 'Failed to load definition');
+                onLoad(null);
+            });
+
+        return () => { cancelled = true; };
+    }, [source, draft, file, onLoad]);
+
+    const handleFile = async (selected: File) => {
+        try {
+            setFile(await loadDefinitionFile(selected));
+            setSource('file');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid definition file');
+        }
+    };
+
+    return (
+        <div className="flex items-center gap-1">
+            <select
+                value={source}
+                onChange={(e) => e.target.value === 'file' && !file
+                    ? inputRef.current?.click()
+                    : setSource(e.target.value)}
+                className="px-2 py-1 rounded border border-slate-300 bg-white text-xs"
+            >
+                {pipelines.map(pipeline => (
+                    <option key={pipeline.name} value={`schema:${pipeline.name}`}>
+                        {pipeline.name} schema (v{pipeline.version})
+                    </option>
+                ))}
+                <option value="live">pipeline-definition.json</option>
+                {draft && <option value="draft">Edit draft</option>}
+                <option value="file">{file ? `File: ${file.name}` : 'Local file…'}</option>
+            </select>
+            {source === 'file' && (
+                <button onClick={() => inputRef.current?.click()} className="text-xs text-blue-600 hover:underline">
+                    Change
+                </button>
+            )}
+            <input
+                ref={inputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                    const selected = e.target.files?.[0];
+                    if (selected) handleFile(selected);
+                    e.target.value = '';
+                }}
+            />
+            {error && (
+                <span title={error}>
+                    <CircleAlert className="w-4 h-4 text-red-500" />
+                </span>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { DefinitionDiffView } from './DefinitionDiffView';
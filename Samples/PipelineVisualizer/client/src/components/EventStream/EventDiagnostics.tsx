@@ -0,0 +1,26 @@
+import { EventDiagnostic } from '../../types';
+
+interface EventDiagnosticsProps {
+    diagnostics: EventDiagnostic[];
+}
+
+/**
+ * Received events that failed to decode, newest first, with their raw payload.
+ */
+export function EventDiagnostics({ diagnostics }: EventDiagnosticsProps) {
+    return (
+        <div className="max-h-48 overflow-y-auto bg-gray-800/60 border-b border-gray-700 text-xs font-mono">
+            {[...diagnostics].reverse().map((diagnostic) => (
+                <details key={diagnostic.id} className="px-3 py-1.5 border-b border-gray-800">
+                    <summary className="cursor-pointer text-amber-300">
+                        <span className="text-gray-500 mr-2">{new Date(diagnostic.receivedAt).toLocaleTimeString()}</span>
+                        {diagnostic.error}
+                    </summary>
+                    <pre className="mt-1 text-gray-400 whitespace-pre-wrap break-all">
+                        {JSON.stringify(diagnostic.raw, null, 2)}
+                    </pre>
+                </details>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,166 @@
+import { useMemo } from 'react';
+import { clsx } from 'clsx';
+import { Search, Regex, Save, Trash2, X } from 'lucide-react';
+import { EventFilter, EventFilterPreset, SseEvent } from '../../types';
+import { BUILT_IN_PRESETS, EMPTY_FILTER, LOG_LEVELS, eventCorrelationId, eventStepName } from '../../services/eventFilter';
+import { useFilterPresets } from '../../hooks';
+
+interface EventFilterBarProps {
+    events: SseEvent[];
+    filter: EventFilter;
+    onChange: (filter: EventFilter) => void;
+    searchError?: string;
+}
+
+type ListKey = 'levels' | 'eventTypes' | 'steps' | 'correlationIds';
+
+/**
+ * Filter controls for the event stream. Chip options are taken from the events seen so far.
+ */
+export function EventFilterBar({ events, filter, onChange, searchError }: EventFilterBarProps) {
+    const { presets, savePreset, deletePreset } = useFilterPresets();
+
+    const options = useMemo(() => {
+        const eventTypes = new Set<string>();
+        const steps = new Set<string>();
+        const correlationIds = new Set<string>();
+
+        events.forEach(event => {
+            eventTypes.add(event.type === 'log' ? 'log' : event.eventType);
+            const step = eventStepName(event);
+            if (step) steps.add(step);
+            const correlationId = eventCorrelationId(event);
+            if (correlationId) correlationIds.add(correlationId);
+        });
+
+        return {
+            eventTypes: [...eventTypes].sort(),
+            steps: [...steps].sort(),
+            correlationIds: [...correlationIds],
+        };
+    }, [events]);
+
+    const toggle = <K extends ListKey>(key: K, value: EventFilter[K][number]) => {
+        const current = filter[key] as string[];
+        const next = current.includes(value)
+            ? current.filter(item => item !== value)
+            : [...current, value];
+        onChange({ ...filter, [key]: next });
+    };
+
+    const allPresets = [...BUILT_IN_PRESETS, ...presets];
+    const isSavedPreset = (name: string) => presets.some(preset => preset.name === name);
+
+    const applyPreset = (name: string) => {
+        const preset = allPresets.find(p => p.name === name);
+        if (preset) onChange({ ...preset.filter });
+    };
+
+    const handleSave = () => {
+        const name = window.prompt('Preset name');
+        if (name?.trim()) savePreset(name.trim(), filter);
+    };
+
+    const activePreset = allPresets.find(preset => sameFilter(preset, filter))?.name ?? '';
+
+    return (
+        <div className="px-3 py-2 bg-gray-800/60 border-b border-gray-700 space-y-1.5 text-xs">
+            <div className="flex items-center gap-2">
+                <div className={clsx(
+                    'flex-1 flex items-center gap-1 px-2 py-1 rounded bg-gray-900 border',
+                    searchError ? 'border-red-500' : 'border-gray-700'
+                )}>
+                    <Search className="w-3 h-3 text-gray-500" />
+                    <input
+                        value={filter.search}
+                        onChange={(e) => onChange({ ...filter, search: e.target.value })}
+                        placeholder={filter.regex ? 'Regular expression' : 'Search messages and data'}
+                        title={searchError}
+                        className="flex-1 bg-transparent outline-none font-mono text-gray-200"
+                    />
+                    <button
+                        onClick={() => onChange({ ...filter, regex: !filter.regex })}
+                        className={clsx('p-0.5 rounded', filter.regex ? 'bg-blue-600 text-white' : 'text-gray-500 hover:text-gray-300')}
+                        title="Use regular expression"
+                    >
+                        <Regex className="w-3 h-3" />
+                    </button>
+                </div>
+
+                <select
+                    value={activePreset}
+                    onChange={(e) => applyPreset(e.target.value)}
+                    className="px-1 py-1 rounded bg-gray-900 border border-gray-700 text-gray-300"
+                >
+                    <option value="">Presets</option>
+                    {allPresets.map(preset => (
+                        <option key={preset.name} value={preset.name}>{preset.name}</option>
+                    ))}
+                </select>
+                <button onClick={handleSave} className="p-1 text-gray-400 hover:text-gray-200" title="Save filter as preset">
+                    <Save className="w-3.5 h-3.5" />
+                </button>
+                {isSavedPreset(activePreset) && (
+                    <button onClick={() => deletePreset(activePreset)} className="p-1 text-gray-400 hover:text-red-400" title="Delete preset">
+                        <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                )}
+                <button onClick={() => onChange({ ...EMPTY_FILTER })} className="p-1 text-gray-400 hover:text-gray-200" title="Clear filter">
+                    <X className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            <ChipRow label="Level" values={LOG_LEVELS} selected={filter.levels} onToggle={(value) => toggle('levels', value)} />
+            <ChipRow label="Type" values={options.eventTypes} selected={filter.eventTypes} onToggle={(value) => toggle('eventTypes', value)} />
+            {options.steps.length > 0 && (
+                <ChipRow label="Step" values={options.steps} selected={filter.steps} onToggle={(value) => toggle('steps', value)} />
+            )}
+            {options.correlationIds.length > 1 && (
+                <ChipRow
+                    label="Run"
+                    values={options.correlationIds}
+                    selected={filter.correlationIds}
+                    onToggle={(value) => toggle('correlationIds', value)}
+                    format={(value) => value.substring(0, 8)}
+                />
+            )}
+        </div>
+    );
+}
+
+interface ChipRowProps<T extends string> {
+    label: string;
+    values: T[];
+    selected: T[];
+    onToggle: (value: T) => void;
+    format?: (value: T) => string;
+}
+
+function ChipRow<T extends string>({ label, values, selected, onToggle, format }: ChipRowProps<T>) {
+    return (
+        <div className="flex items-start gap-2">
+            <span className="w-10 shrink-0 pt-0.5 text-gray-500">{label}</span>
+            <div className="flex flex-wrap gap-1">
+                {values.map(value => (
+                    <button
+                        key={value}
+                        onClick={() => onToggle(value)}
+                        title={value}
+                        className={clsx(
+                            'px-1.5 py-0.5 rounded font-mono border transition-colors',
+                            selected.includes(value)
+                                ? 'bg-blue-600 border-blue-500 text-white'
+                                : 'bg-gray-900 border-gray-700 text-gray-400 hover:text-gray-200'
+                        )}
+                    >
+                        {format ? format(value) : value}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function sameFilter(preset: EventFilterPreset, filter: EventFilter): boolean {
+    return JSON.stringify(preset.filter) === JSON.stringify(filter);
+}
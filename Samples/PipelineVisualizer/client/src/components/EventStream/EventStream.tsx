@@ -1,5 +1,7 @@
+import { useMemo, useState } from 'react';
 import { Virtuoso } from 'react-virtuoso';
-import { SseEvent, LogEvent, PipelineEvent } from '../../types';
+import { clsx } from 'clsx';
+import { SseEvent, LogEvent, PipelineEvent, EventFilter, StreamGap, EventDiagnostic } from '../../types';
 import {
     Activity,
     AlertCircle,
@@ -8,47 +10,166 @@ import {
     PlayCircle,
     AlertTriangle,
     Zap,
-    MessageSquare
+    MessageSquare,
+    Wrench,
+    Tag,
+    ListFilter,
+    ShieldCheck,
+    ShieldAlert,
+    Unplug,
+    Loader
 } from 'lucide-react';
+import { formatDuration } from '../../utils/timeSpan';
+import { EMPTY_FILTER, createSearchMatcher, isFilterActive, matchesFilter, splitMatches } from '../../services/eventFilter';
+import { EventFilterBar } from './EventFilterBar';
+import { EventDiagnostics } from './EventDiagnostics';
 
 interface EventStreamProps {
     events: SseEvent[];
+    /** Missed stretches of the live stream, shown as markers between events. */
+    gaps?: StreamGap[];
+    /** Events that failed to decode; listed on demand instead of in the stream. */
+    diagnostics?: EventDiagnostic[];
+    /** Older events no longer held in memory. */
+    droppedCount?: number;
     maxHeight?: string;
 }
 
+type StreamRow = { kind: 'event'; event: SseEvent } | { kind: 'gap'; gap: StreamGap };
+
 /**
- * Virtualized event stream viewer for logs and pipeline events.
+ * Virtualized event stream viewer for logs and pipeline events, with a filter bar.
  */
-export function EventStream({ events, maxHeight = '100%' }: EventStreamProps) {
+export function EventStream({ events, gaps = [], diagnostics = [], droppedCount = 0, maxHeight = '100%' }: EventStreamProps) {
+    const [filter, setFilter] = useState<EventFilter>(EMPTY_FILTER);
+    const [showFilters, setShowFilters] = useState(false);
+    const [showDiagnostics, setShowDiagnostics] = useState(false);
+
+    const matcher = useMemo(() => createSearchMatcher(filter.search, filter.regex), [filter.search, filter.regex]);
+    const filtering = isFilterActive(filter);
+    const visibleEvents = useMemo(
+        () => filtering ? events.filter(event => matchesFilter(event, filter, matcher)) : events,
+        [events, filter, matcher, filtering]
+    );
+    const rows = useMemo(() => interleaveGaps(visibleEvents, gaps), [visibleEvents, gaps]);
+
     return (
         <div className="h-full flex flex-col bg-gray-900 text-gray-100 rounded-lg overflow-hidden">
             <div className="px-4 py-2 bg-gray-800 border-b border-gray-700 flex items-center gap-2">
                 <Activity className="w-4 h-4 text-green-400" />
                 <span className="text-sm font-medium">Event Stream</span>
-                <span className="ml-auto text-xs text-gray-400">{events.length} events</span>
+                <span className="ml-auto text-xs text-gray-400">
+                    {filtering ? `${visibleEvents.length} / ${events.length}` : events.length} events
+                    {droppedCount > 0 && (
+                        <span title="Older events were dropped from memory"> · {droppedCount} older dropped</span>
+                    )}
+                </span>
+                {diagnostics.length > 0 && (
+                    <button
+                        onClick={() => setShowDiagnostics(!showDiagnostics)}
+                        className={clsx(
+                            'px-1.5 py-0.5 rounded flex items-center gap-1 text-xs text-amber-400 hover:bg-gray-700',
+                            showDiagnostics && 'bg-gray-700'
+                        )}
+                        title="Events that failed to decode"
+                    >
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        {diagnostics.length} malformed
+                    </button>
+                )}
+                <button
+                    onClick={() => setShowFilters(!showFilters)}
+                    className={clsx(
+                        'p-1 rounded transition-colors',
+                        filtering ? 'text-blue-400' : 'text-gray-400 hover:text-gray-200',
+                        showFilters && 'bg-gray-700'
+                    )}
+                    title="Filter events"
+                >
+                    <ListFilter className="w-4 h-4" />
+                </button>
             </div>
 
+            {showFilters && (
+                <EventFilterBar events={events} filter={filter} onChange={setFilter} searchError={matcher.error} />
+            )}
+
+            {showDiagnostics && diagnostics.length > 0 && <EventDiagnostics diagnostics={diagnostics} />}
+
             <div className="flex-1 overflow-hidden" style={{ maxHeight }}>
                 <Virtuoso
                     className="h-full"
-                    data={events}
-                    followOutput="smooth"
-                    initialTopMostItemIndex={events.length - 1}
-                    itemContent={(_, event) => <EventItem event={event} />}
+                    data={rows}
+                    followOutput="auto"
+                    initialTopMostItemIndex={rows.length - 1}
+                    itemContent={(_, row) => row.kind === 'gap'
+                        ? <GapItem gap={row.gap} />
+                        : <EventItem event={row.event} pattern={matcher.pattern} />}
                 />
             </div>
         </div>
     );
 }
 
-function EventItem({ event }: { event: SseEvent }) {
+/**
+ * Places each gap after the last event received before it. Gaps from before the
+ * first shown event concern earlier runs and are left out.
+ */
+function interleaveGaps(events: SseEvent[], gaps: StreamGap[]): StreamRow[] {
+    const rows: StreamRow[] = events.map(event => ({ kind: 'event', event }));
+    if (events.length === 0) return rows;
+
+    const first = Date.parse(events[0].timestamp);
+    for (const gap of gaps) {
+        const after = gap.after ? Date.parse(gap.after) : NaN;
+        if (Number.isNaN(after) || after < first) continue;
+
+        let index = rows.length;
+        while (index > 0) {
+            const row = rows[index - 1];
+            if (row.kind === 'gap' || Date.parse(row.event.timestamp) <= after) break;
+            index--;
+        }
+        rows.splice(index, 0, { kind: 'gap', gap });
+    }
+
+    return rows;
+}
+
+function GapItem({ gap }: { gap: StreamGap }) {
+    return (
+        <div className="px-3 py-1.5 border-y border-dashed border-amber-500/50 bg-amber-500/10 text-xs font-mono text-amber-300 flex items-center gap-2">
+            <Unplug className="w-3 h-3 shrink-0" />
+            <span className="text-gray-500 shrink-0">{new Date(gap.detectedAt).toLocaleTimeString()}</span>
+            {gap.reason === 'restart'
+                ? 'Server restarted: events may be missing'
+                : `${gap.missed} ${gap.missed === 1 ? 'event' : 'events'} missed while disconnected`}
+        </div>
+    );
+}
+
+function EventItem({ event, pattern }: { event: SseEvent; pattern?: RegExp }) {
     if (event.type === 'log') {
-        return <LogEventItem event={event} />;
+        return <LogEventItem event={event} pattern={pattern} />;
     }
-    return <PipelineEventItem event={event} />;
+    return <PipelineEventItem event={event} pattern={pattern} />;
+}
+
+/**
+ * Renders text with the search matches highlighted.
+ */
+function Highlight({ text, pattern }: { text: string; pattern?: RegExp }) {
+    return (
+        <>
+            {splitMatches(text, pattern).map((segment, index) => segment.match
+                ? <mark key={index} className="bg-yellow-400/80 text-gray-900 rounded-sm">{segment.text}</mark>
+                : segment.text
+            )}
+        </>
+    );
 }
 
-function LogEventItem({ event }: { event: LogEvent }) {
+function LogEventItem({ event, pattern }: { event: LogEvent; pattern?: RegExp }) {
     const levelColors: Record<string, string> = {
         Debug: 'text-gray-400',
         Information: 'text-blue-400',
@@ -77,24 +198,39 @@ function LogEventItem({ event }: { event: LogEvent }) {
                 <span className={`shrink-0 ${levelColors[event.level]}`}>
                     [{event.level.substring(0, 3).toUpperCase()}]
                 </span>
-                <span className="text-gray-300 break-all">{event.message}</span>
+                <span className="text-gray-300 break-all"><Highlight text={event.message} pattern={pattern} /></span>
             </div>
         </div>
     );
 }
 
-function PipelineEventItem({ event }: { event: PipelineEvent }) {
+function PipelineEventItem({ event, pattern }: { event: PipelineEvent; pattern?: RegExp }) {
+    const failed = (event.eventType === 'tool.completed' || event.eventType === 'tag.completed') && !event.data.success;
+    const invalid = event.eventType === 'step.validation' && !event.data.isValid;
     const eventStyles: Record<string, { icon: React.ReactNode; color: string }> = {
         'step.started': { icon: <PlayCircle className="w-3 h-3" />, color: 'text-blue-400' },
         'step.completed': { icon: <CheckCircle className="w-3 h-3" />, color: 'text-green-400' },
+        'step.progress': { icon: <Loader className="w-3 h-3" />, color: 'text-sky-400' },
         'step.routing': { icon: <Zap className="w-3 h-3" />, color: 'text-yellow-400' },
         'llm.response': { icon: <MessageSquare className="w-3 h-3" />, color: 'text-purple-400' },
         'pipeline.started': { icon: <PlayCircle className="w-3 h-3" />, color: 'text-emerald-400' },
         'pipeline.completed': { icon: <CheckCircle className="w-3 h-3" />, color: 'text-emerald-400' },
         'context.snapshot': { icon: <Activity className="w-3 h-3" />, color: 'text-cyan-400' },
+        'tool.started': { icon: <Wrench className="w-3 h-3" />, color: 'text-orange-400' },
+        'tool.completed': failed
+            ? { icon: <Wrench className="w-3 h-3" />, color: 'text-red-400' }
+            : { icon: <Wrench className="w-3 h-3" />, color: 'text-orange-300' },
+        'step.validation': invalid
+            ? { icon: <ShieldAlert className="w-3 h-3" />, color: 'text-amber-400' }
+            : { icon: <ShieldCheck className="w-3 h-3" />, color: 'text-green-300' },
+        'tag.started': { icon: <Tag className="w-3 h-3" />, color: 'text-teal-400' },
+        'tag.completed': failed
+            ? { icon: <Tag className="w-3 h-3" />, color: 'text-red-400' }
+            : { icon: <Tag className="w-3 h-3" />, color: 'text-teal-300' },
     };
 
     const style = eventStyles[event.eventType] || { icon: <Info className="w-3 h-3" />, color: 'text-gray-400' };
+    const detail = eventDetail(event);
 
     return (
         <div className="px-3 py-1.5 border-b border-gray-800 hover:bg-gray-800/50 text-xs font-mono">
@@ -107,9 +243,59 @@ function PipelineEventItem({ event }: { event: PipelineEvent }) {
                     [{event.eventType}]
                 </span>
                 {event.stepName && (
-                    <span className="text-amber-400 shrink-0">{event.stepName}</span>
+                    <span className="text-amber-400 shrink-0"><Highlight text={event.stepName} pattern={pattern} /></span>
+                )}
+                {detail && (
+                    <span className="text-gray-400 break-all"><Highlight text={detail} pattern={pattern} /></span>
                 )}
             </div>
         </div>
     );
 }
+
+/**
+ * Short inline summary for event types that carry a notable payload.
+ */
+function eventDetail(event: PipelineEvent): string | undefined {
+    switch (event.eventType) {
+        case 'step.progress': {
+            const { currentProgress, totalProgress } = event.data;
+            const progress = currentProgress !== undefined && totalProgress !== undefined
+                ? ` (${currentProgress}/${totalProgress})`
+                : '';
+            return `${event.data.message}${progress}`;
+        }
+        case 'step.validation': {
+            const attempt = `attempt ${event.data.attemptNumber}`;
+            return event.data.isValid
+                ? `✓ ${attempt}`
+                : `✗ ${attempt} (${event.data.validationType}): ${event.data.validationError ?? 'invalid'}`;
+        }
+        case 'tool.started':
+            return `→ ${event.data.toolName}`;
+        case 'tool.completed': {
+            const timing = formatTiming(event.data.durationMs);
+            return event.data.success
+                ? `✓ ${event.data.toolName}${timing}`
+                : `✗ ${event.data.toolName}${timing}: ${event.data.errorMessage ?? 'failed'}`;
+        }
+        case 'tag.started': {
+            const attributes = Object.entries(event.data.attributes)
+                .map(([key, value]) => `${key}=${value}`)
+                .join(' ');
+            return `<${event.data.tagName}${attributes ? ' ' + attributes : ''}>`;
+        }
+        case 'tag.completed': {
+            const timing = formatTiming(event.data.durationMs);
+            return event.data.success
+                ? `</${event.data.tagName}>${timing}`
+                : `✗ </${event.data.tagName}>${timing}: ${event.data.errorMessage ?? 'failed'}`;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function formatTiming(durationMs: number | undefined): string {
+    return durationMs !== undefined ? ` (${formatDuration(durationMs)})` : '';
+}
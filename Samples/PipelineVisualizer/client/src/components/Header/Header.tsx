@@ -1,5 +1,6 @@
-import { PipelineStatus } from '../../types';
-import { Activity, Wifi, WifiOff, CheckCircle, AlertCircle, Loader2, ChevronDown } from 'lucide-react';
+import { PipelineStatus, PipelineRun, TransportKind } from '../../types';
+import { useRef } from 'react';
+import { Activity, Wifi, WifiOff, CheckCircle, AlertCircle, Loader2, ChevronDown, Download, Upload, Pencil, GitCompare, GitCompareArrows, OctagonX, RefreshCw } from 'lucide-react';
 
 interface Pipeline {
     name: string;
@@ -10,11 +11,26 @@ interface Pipeline {
 interface HeaderProps {
     status: PipelineStatus;
     connected: boolean;
+    transport: TransportKind;
+    onReconnect: () => void;
     eventsCount: number;
     stepsCompleted: number;
     pipelines: Pipeline[];
     selectedPipeline: string | null;
     onPipelineChange: (name: string) => void;
+    runs: PipelineRun[];
+    selectedRunId: string | null;
+    onRunChange: (correlationId: string | null) => void;
+    onExportRun?: () => void;
+    onLoadRecording: (file: File) => void;
+    costLabel: string;
+    onCostClick: () => void;
+    editing: boolean;
+    onEditPipeline?: () => void;
+    comparing: boolean;
+    onCompareDefinitions: () => void;
+    comparingRuns: boolean;
+    onCompareRuns: () => void;
 }
 
 /**
@@ -23,11 +39,26 @@ interface HeaderProps {
 export function Header({
     status,
     connected,
+    transport,
+    onReconnect,
     eventsCount,
     stepsCompleted,
     pipelines,
     selectedPipeline,
-    onPipelineChange
+    onPipelineChange,
+    runs,
+    selectedRunId,
+    onRunChange,
+    onExportRun,
+    onLoadRecording,
+    costLabel,
+    onCostClick,
+    editing,
+    onEditPipeline,
+    comparing,
+    onCompareDefinitions,
+    comparingRuns,
+    onCompareRuns
 }: HeaderProps) {
     return (
         <header className="h-14 bg-gradient-to-r from-slate-900 to-slate-800 border-b border-slate-700 px-6 flex items-center justify-between shadow-lg">
@@ -57,12 +88,59 @@ export function Header({
                         <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
                     </div>
                 )}
+
+                {/* Run Selector */}
+                {runs.length > 0 && (
+                    <RunSelector runs={runs} selectedRunId={selectedRunId} onRunChange={onRunChange} />
+                )}
+
+                {/* Recording */}
+                <RecordingButtons onExportRun={onExportRun} onLoadRecording={onLoadRecording} />
+
+                {/* Edit Mode */}
+                <button
+                    onClick={onEditPipeline}
+                    disabled={!onEditPipeline}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent ${editing
+                        ? 'bg-blue-500/20 text-blue-300'
+                        : 'text-slate-300 hover:bg-slate-700'
+                        }`}
+                    title={editing ? 'Leave edit mode' : 'Edit pipeline'}
+                >
+                    <Pencil className="w-4 h-4" />
+                </button>
+
+                {/* Definition Diff */}
+                <button
+                    onClick={onCompareDefinitions}
+                    className={`p-2 rounded-lg transition-colors ${comparing
+                        ? 'bg-blue-500/20 text-blue-300'
+                        : 'text-slate-300 hover:bg-slate-700'
+                        }`}
+                    title={comparing ? 'Close comparison' : 'Compare pipeline definitions'}
+                >
+                    <GitCompare className="w-4 h-4" />
+                </button>
+
+                {/* Run Comparison */}
+                <button
+                    onClick={onCompareRuns}
+                    className={`p-2 rounded-lg transition-colors ${comparingRuns
+                        ? 'bg-blue-500/20 text-blue-300'
+                        : 'text-slate-300 hover:bg-slate-700'
+                        }`}
+                    title={comparingRuns ? 'Close run comparison' : 'Compare two runs'}
+                >
+                    <GitCompareArrows className="w-4 h-4" />
+                </button>
             </div>
 
             <div className="flex items-center gap-6">
                 {/* Connection Status */}
                 <StatusBadge
                     connected={connected}
+                    transport={transport}
+                    onReconnect={onReconnect}
                 />
 
                 {/* Pipeline Status */}
@@ -72,15 +150,101 @@ export function Header({
                 <div className="flex gap-4 text-xs">
                     <MetricBadge label="Steps" value={stepsCompleted} color="blue" />
                     <MetricBadge label="Events" value={eventsCount} color="purple" />
+                    <MetricBadge label="Cost" value={costLabel} color="emerald" onClick={onCostClick} />
                 </div>
             </div>
         </header>
     );
 }
 
-function StatusBadge({ connected }: { connected: boolean }) {
+function RunSelector({
+    runs,
+    selectedRunId,
+    onRunChange
+}: {
+    runs: PipelineRun[];
+    selectedRunId: string | null;
+    onRunChange: (correlationId: string | null) => void;
+}) {
+    const statusLabels: Record<PipelineStatus, string> = {
+        idle: 'Idle',
+        running: 'Running',
+        completed: 'Completed',
+        error: 'Error',
+        cancelled: 'Cancelled',
+    };
+
+    return (
+        <div className="relative">
+            <select
+                value={selectedRunId || ''}
+                onChange={(e) => onRunChange(e.target.value || null)}
+                className="appearance-none bg-slate-700/50 text-white text-sm px-4 py-2 pr-10 rounded-lg border border-slate-600 hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer transition-colors"
+            >
+                <option value="">Follow current run</option>
+                {[...runs].reverse().map((run) => (
+                    <option key={run.correlationId} value={run.correlationId}>
+                        {new Date(run.startedAt).toLocaleTimeString()} · {run.correlationId.substring(0, 8)} · {statusLabels[run.status]}
+                    </option>
+                ))}
+            </select>
+            <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none" />
+        </div>
+    );
+}
+
+function RecordingButtons({
+    onExportRun,
+    onLoadRecording
+}: {
+    onExportRun?: () => void;
+    onLoadRecording: (file: File) => void;
+}) {
+    const inputRef = useRef<HTMLInputElement>(null);
+
     return (
-        <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full ${connected
+        <div className="flex items-center gap-1">
+            <button
+                onClick={onExportRun}
+                disabled={!onExportRun}
+                className="p-2 rounded-lg text-slate-300 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                title="Export run recording"
+            >
+                <Download className="w-4 h-4" />
+            </button>
+            <button
+                onClick={() => inputRef.current?.click()}
+                className="p-2 rounded-lg text-slate-300 hover:bg-slate-700 transition-colors"
+                title="Load recording"
+            >
+                <Upload className="w-4 h-4" />
+            </button>
+            <input
+                ref={inputRef}
+                type="file"
+                accept=".ndjson,.jsonl,application/x-ndjson"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) onLoadRecording(file);
+                    e.target.value = '';
+                }}
+            />
+        </div>
+    );
+}
+
+function StatusBadge({
+    connected,
+    transport,
+    onReconnect
+}: {
+    connected: boolean;
+    transport: TransportKind;
+    onReconnect: () => void;
+}) {
+    return (
+        <div title={`Event transport: ${transport}`} className={`flex items-center gap-2 px-3 py-1.5 rounded-full ${connected
             ? 'bg-green-500/20 text-green-400'
             : 'bg-red-500/20 text-red-400'
             }`}>
@@ -91,7 +255,15 @@ function StatusBadge({ connected }: { connected: boolean }) {
             )}
             <span className="text-xs font-medium">
                 {connected ? 'Connected' : 'Disconnected'}
+                {transport !== 'sse' && <span className="opacity-70"> · {transport}</span>}
             </span>
+            <button
+                onClick={onReconnect}
+                className="-mr-1 p-0.5 rounded-full hover:bg-white/10 transition-colors"
+                title="Reconnect event stream"
+            >
+                <RefreshCw className="w-3 h-3" />
+            </button>
         </div>
     );
 }
@@ -102,6 +274,7 @@ function PipelineStatusBadge({ status }: { status: PipelineStatus }) {
         running: { icon: <Loader2 className="w-3.5 h-3.5 animate-spin" />, color: 'bg-blue-500/20 text-blue-400', label: 'Running' },
         completed: { icon: <CheckCircle className="w-3.5 h-3.5" />, color: 'bg-green-500/20 text-green-400', label: 'Completed' },
         error: { icon: <AlertCircle className="w-3.5 h-3.5" />, color: 'bg-red-500/20 text-red-400', label: 'Error' },
+        cancelled: { icon: <OctagonX className="w-3.5 h-3.5" />, color: 'bg-orange-500/20 text-orange-400', label: 'Cancelled' },
     };
 
     const config = statusConfig[status];
@@ -114,16 +287,37 @@ function PipelineStatusBadge({ status }: { status: PipelineStatus }) {
     );
 }
 
-function MetricBadge({ label, value, color }: { label: string; value: number; color: 'blue' | 'purple' }) {
+function MetricBadge({
+    label,
+    value,
+    color,
+    onClick
+}: {
+    label: string;
+    value: number | string;
+    color: 'blue' | 'purple' | 'emerald';
+    onClick?: () => void;
+}) {
     const colors = {
         blue: 'text-blue-400',
         purple: 'text-purple-400',
+        emerald: 'text-emerald-400',
     };
 
-    return (
-        <div className="flex flex-col items-center">
+    const content = (
+        <>
             <span className={`text-lg font-bold ${colors[color]}`}>{value}</span>
             <span className="text-slate-500">{label}</span>
+        </>
+    );
+
+    return onClick ? (
+        <button onClick={onClick} className="flex flex-col items-center rounded-md px-1 hover:bg-slate-700/50 transition-colors">
+            {content}
+        </button>
+    ) : (
+        <div className="flex flex-col items-center">
+            {content}
         </div>
     );
 }
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { PipelineDefinition, SseEvent, TagSpan, ToolCall, ValidationAttempt } from '../../types';
+import { Timeline } from '../Timeline';
+import { ToolCallList } from '../ToolCalls';
+import { TagList } from '../Tags';
+import { ValidationList } from '../Validation';
+
+interface InsightsPanelProps {
+    pipeline: PipelineDefinition | null;
+    events: SseEvent[];
+    toolCalls: ToolCall[];
+    tagSpans: Record<string, TagSpan[]>;
+    validations: Record<string, ValidationAttempt[]>;
+}
+
+type InsightTab = 'timeline' | 'tools' | 'tags' | 'retries';
+
+/**
+ * Tabbed side panel next to the graph with per-run analysis views.
+ */
+export function InsightsPanel({ pipeline, events, toolCalls, tagSpans, validations }: InsightsPanelProps) {
+    const failedAttempts = Object.values(validations).flat().filter(attempt => !attempt.isValid).length;
+    const [tab, setTab] = useState<InsightTab>('timeline');
+
+    const tabs: { id: InsightTab; label: string }[] = [
+        { id: 'timeline', label: 'Timeline' },
+        { id: 'tools', label: `Tools (${toolCalls.length})` },
+        { id: 'tags', label: 'Tags' },
+        { id: 'retries', label: `Retries (${failedAttempts})` },
+    ];
+
+    return (
+        <div className="h-full flex flex-col bg-white overflow-hidden">
+            <div className="flex border-b border-slate-200 bg-slate-50 text-xs">
+                {tabs.map(({ id, label }) => (
+                    <button
+                        key={id}
+                        onClick={() => setTab(id)}
+                        className={clsx(
+                            'px-3 py-1.5 font-medium border-b-2 transition-colors',
+                            tab === id
+                                ? 'border-blue-500 text-blue-700'
+                                : 'border-transparent text-slate-500 hover:text-slate-700'
+                        )}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex-1 overflow-hidden">
+                {tab === 'timeline' && <Timeline pipeline={pipeline} events={events} />}
+                {tab === 'tools' && <ToolCallList toolCalls={toolCalls} />}
+                {tab === 'tags' && <TagList tagSpans={tagSpans} />}
+                {tab === 'retries' && <ValidationList validations={validations} />}
+            </div>
+        </div>
+    );
+}
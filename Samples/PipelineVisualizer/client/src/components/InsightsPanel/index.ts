@@ -0,0 +1 @@
+export { InsightsPanel } from './InsightsPanel';
@@ -0,0 +1,216 @@
+import { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { Undo2, Redo2, FileDown, ClipboardCopy, X, CircleAlert, Pencil } from 'lucide-react';
+import { PipelineDefinition, StepTypeInfo } from '../../types';
+import {
+    addRoute,
+    createStep,
+    downloadDefinition,
+    exportDefinition,
+    insertStep,
+    moveStep,
+    removeRoute,
+    removeStep,
+    renameRoute,
+    renameStep,
+    updateStep,
+    validateDefinition,
+} from '../../services/pipelineEditor';
+import { findStep } from '../../utils/pipelineSteps';
+import { StepOutline, OutlineActions, DRAG_TYPE, DragPayload } from './StepOutline';
+import { StepInspector } from './StepInspector';
+
+interface PipelineEditorProps {
+    draft: PipelineDefinition;
+    stepTypes: Record<string, StepTypeInfo>;
+    selectedStep: string | null;
+    onSelectStep: (name: string | null) => void;
+    apply: (edit: (definition: PipelineDefinition) => PipelineDefinition) => string | undefined;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    onClose: () => void;
+}
+
+const categoryColors: Record<StepTypeInfo['category'], string> = {
+    llm: 'border-purple-200 bg-purple-50 text-purple-700',
+    'control-flow': 'border-orange-200 bg-orange-50 text-orange-700',
+    container: 'border-slate-200 bg-slate-50 text-slate-700',
+    utility: 'border-gray-200 bg-gray-50 text-gray-700',
+};
+
+/**
+ * Edit mode panel: step palette, outline with drag and drop, inspector for the
+ * selected step, problems and JSON export. The graph previews the draft.
+ */
+export function PipelineEditor({
+    draft,
+    stepTypes,
+    selectedStep,
+    onSelectStep,
+    apply,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    onClose,
+}: PipelineEditorProps) {
+    const [error, setError] = useState<string>();
+    const problems = useMemo(() => validateDefinition(draft), [draft]);
+    const selected = selectedStep ? findStep(draft.pipeline, selectedStep) : undefined;
+
+    const run = (edit: (definition: PipelineDefinition) => PipelineDefinition) => {
+        setError(apply(edit));
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y outside of text fields
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (!(e.ctrlKey || e.metaKey) || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    const actions: OutlineActions = {
+        select: onSelectStep,
+        drop: (payload: DragPayload, parent, index) => {
+            if (payload.kind === 'new') {
+                const step = createStep(draft, payload.type, stepTypes[payload.type]);
+                const message = apply(definition => insertStep(definition, parent, index, step));
+                setError(message);
+                if (!message) onSelectStep(step.name);
+            } else {
+                run(definition => moveStep(definition, payload.name, parent, index));
+            }
+        },
+        remove: (name) => {
+            run(definition => removeStep(definition, name));
+            if (name === selectedStep) onSelectStep(null);
+        },
+        addRoute: (router) => {
+            const route = window.prompt('Route name');
+            if (route) run(definition => addRoute(definition, router, route));
+        },
+        renameRoute: (router, route) => {
+            const newRoute = window.prompt('Route name', route);
+            if (newRoute) run(definition => renameRoute(definition, router, route, newRoute));
+        },
+        removeRoute: (router, route) => run(definition => removeRoute(definition, router, route)),
+    };
+
+    const handleExport = () => downloadDefinition(draft, stepTypes);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(exportDefinition(draft, stepTypes));
+        } catch (err) {
+            console.error('Copy failed:', err);
+        }
+    };
+
+    return (
+        <div className="h-full flex flex-col bg-white overflow-hidden">
+            <div className="px-3 py-2 bg-gray-50 border-b flex items-center gap-1">
+                <Pencil className="w-4 h-4 text-blue-500" />
+                <span className="text-sm font-medium text-gray-700 mr-auto">Edit Pipeline</span>
+                <ToolbarButton title="Undo (Ctrl+Z)" onClick={undo} disabled={!canUndo}><Undo2 className="w-4 h-4" /></ToolbarButton>
+                <ToolbarButton title="Redo (Ctrl+Shift+Z)" onClick={redo} disabled={!canRedo}><Redo2 className="w-4 h-4" /></ToolbarButton>
+                <ToolbarButton title="Copy JSON" onClick={handleCopy} disabled={problems.length > 0}><ClipboardCopy className="w-4 h-4" /></ToolbarButton>
+                <ToolbarButton title="Export pipeline-definition.json" onClick={handleExport} disabled={problems.length > 0}><FileDown className="w-4 h-4" /></ToolbarButton>
+                <ToolbarButton title="Leave edit mode" onClick={onClose}><X className="w-4 h-4" /></ToolbarButton>
+            </div>
+
+            {error && (
+                <div className="px-3 py-1 bg-red-50 border-b border-red-200 text-xs text-red-700 flex items-center gap-1">
+                    <CircleAlert className="w-3 h-3 shrink-0" />
+                    {error}
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-3">
+                <div>
+                    <div className="text-xs font-semibold text-amber-600 mb-1">Palette</div>
+                    <div className="flex flex-wrap gap-1">
+                        {Object.entries(stepTypes).map(([type, info]) => (
+                            <div
+                                key={type}
+                                draggable
+                                onDragStart={(e) => {
+                                    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ kind: 'new', type } satisfies DragPayload));
+                                    e.dataTransfer.effectAllowed = 'copy';
+                                }}
+                                title={info.description}
+                                className={clsx('px-1.5 py-0.5 rounded border text-[11px] cursor-grab', categoryColors[info.category])}
+                            >
+                                {type.replace(/Step$/, '')}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <div className="text-xs font-semibold text-amber-600 mb-1">Steps</div>
+                    <StepOutline steps={draft.pipeline} selectedStep={selectedStep} actions={actions} />
+                </div>
+
+                {selected && (
+                    <div>
+                        <div className="text-xs font-semibold text-amber-600 mb-1">{selected.name}</div>
+                        <StepInspector
+                            step={selected}
+                            stepTypes={stepTypes}
+                            onRename={(newName) => {
+                                const message = apply(definition => renameStep(definition, selected.name, newName));
+                                setError(message);
+                                if (!message) onSelectStep(newName.trim());
+                            }}
+                            onUpdate={(patch) => run(definition => updateStep(definition, selected.name, patch))}
+                        />
+                    </div>
+                )}
+
+                {problems.length > 0 && (
+                    <div>
+                        <div className="text-xs font-semibold text-red-600 mb-1">Problems ({problems.length})</div>
+                        <div className="space-y-0.5">
+                            {problems.map((problem, index) => (
+                                <button
+                                    key={index}
+                                    onClick={() => problem.stepName && onSelectStep(problem.stepName)}
+                                    className="w-full text-left flex items-start gap-1 px-2 py-1 rounded bg-red-50 text-xs text-red-700"
+                                >
+                                    <CircleAlert className="w-3 h-3 mt-0.5 shrink-0" />
+                                    {problem.message}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function ToolbarButton({ title, onClick, disabled, children }: { title: string; onClick: () => void; disabled?: boolean; children: React.ReactNode }) {
+    return (
+        <button
+            title={title}
+            onClick={onClick}
+            disabled={disabled}
+            className="p-1 rounded text-gray-500 hover:bg-gray-200 hover:text-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+        >
+            {children}
+        </button>
+    );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { PipelineStep, StepTypeInfo } from '../../types';
+import { baseTypeName } from '../../utils/pipelineSteps';
+import { isContainerType, isRouterType } from '../../services/pipelineEditor';
+
+type StepPatch = Partial<Pick<PipelineStep, 'type' | 'inputType' | 'outputType' | 'config' | 'defaultRoute'>>;
+
+interface StepInspectorProps {
+    step: PipelineStep;
+    stepTypes: Record<string, StepTypeInfo>;
+    onRename: (newName: string) => void;
+    onUpdate: (patch: StepPatch) => void;
+}
+
+/** Config keys with dedicated inputs; any other keys are edited as JSON. */
+const KNOWN_CONFIG = ['provider', 'model', 'temperature', 'maxTokens'] as const;
+
+/**
+ * Form for the selected step. Text fields commit on blur or Enter so that
+ * each edit is a single undo step.
+ */
+export function StepInspector({ step, stepTypes, onRename, onUpdate }: StepInspectorProps) {
+    const config = step.config ?? {};
+    const otherConfig = Object.fromEntries(
+        Object.entries(config).filter(([key]) => !(KNOWN_CONFIG as readonly string[]).includes(key))
+    );
+    // Only types of the same kind keep the step's children valid
+    const typeNames = Object.keys(stepTypes).filter(type => stepKind(type) === stepKind(step.type));
+    const baseType = baseTypeName(step.type);
+
+    const setConfig = (key: string, value: unknown) => {
+        const next: Record<string, unknown> = { ...config, [key]: value };
+        if (value === undefined) delete next[key];
+        onUpdate({ config: next });
+    };
+
+    return (
+        <div className="space-y-2 text-xs">
+            <Row label="Name">
+                <CommitInput key={`name-${step.name}`} value={step.name} onCommit={onRename} />
+            </Row>
+            <Row label="Type">
+                <select
+                    value={typeNames.includes(baseType) ? baseType : step.type}
+                    onChange={(e) => onUpdate({ type: e.target.value })}
+                    className="w-full px-1.5 py-1 rounded border border-slate-300 bg-white"
+                >
+                    {!typeNames.includes(baseType) && <option value={step.type}>{step.type}</option>}
+                    {typeNames.map(type => <option key={type} value={type}>{type}</option>)}
+                </select>
+            </Row>
+            <Row label="Input">
+                <CommitInput key={`in-${step.name}`} value={step.inputType ?? ''} onCommit={(value) => onUpdate({ inputType: value })} />
+            </Row>
+            <Row label="Output">
+                <CommitInput key={`out-${step.name}`} value={step.outputType ?? ''} onCommit={(value) => onUpdate({ outputType: value })} />
+            </Row>
+
+            {step.routes && (
+                <Row label="Default route">
+                    <select
+                        value={step.defaultRoute ?? ''}
+                        onChange={(e) => onUpdate({ defaultRoute: e.target.value })}
+                        className="w-full px-1.5 py-1 rounded border border-slate-300 bg-white"
+                    >
+                        <option value="">None</option>
+                        {Object.keys(step.routes).map(route => <option key={route} value={route}>{route}</option>)}
+                    </select>
+                </Row>
+            )}
+
+            {!step.steps && !step.routes && (
+                <>
+                    <div className="pt-1 text-[10px] font-semibold uppercase text-slate-500">Config</div>
+                    <Row label="Provider">
+                        <CommitInput key={`provider-${step.name}`} value={String(config.provider ?? '')} onCommit={(value) => setConfig('provider', value || undefined)} />
+                    </Row>
+                    <Row label="Model">
+                        <CommitInput key={`model-${step.name}`} value={String(config.model ?? '')} onCommit={(value) => setConfig('model', value || undefined)} />
+                    </Row>
+                    <Row label="Temperature">
+                        <CommitInput
+                            key={`temperature-${step.name}`}
+                            type="number"
+                            value={config.temperature === undefined ? '' : String(config.temperature)}
+                            onCommit={(value) => setConfig('temperature', value === '' ? undefined : Number(value))}
+                        />
+                    </Row>
+                    <Row label="Max tokens">
+                        <CommitInput
+                            key={`maxTokens-${step.name}`}
+                            type="number"
+                            value={config.maxTokens === undefined ? '' : String(config.maxTokens)}
+                            onCommit={(value) => setConfig('maxTokens', value === '' ? undefined : Number(value))}
+                        />
+                    </Row>
+                    <OtherConfig
+                        key={`other-${step.name}-${JSON.stringify(otherConfig)}`}
+                        value={otherConfig}
+                        onCommit={(other) => {
+                            const known = Object.fromEntries(
+                                Object.entries(config).filter(([key]) => (KNOWN_CONFIG as readonly string[]).includes(key))
+                            );
+                            onUpdate({ config: { ...known, ...other } });
+                        }}
+                    />
+                </>
+            )}
+        </div>
+    );
+}
+
+function stepKind(type: string): 'container' | 'router' | 'step' {
+    return isContainerType(type) ? 'container' : isRouterType(type) ? 'router' : 'step';
+}
+
+function Row({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <label className="grid grid-cols-[80px_1fr] items-center gap-2">
+            <span className="text-slate-500">{label}</span>
+            {children}
+        </label>
+    );
+}
+
+function CommitInput({ value, onCommit, type = 'text' }: { value: string; onCommit: (value: string) => void; type?: string }) {
+    const [text, setText] = useState(value);
+
+    // Follow external changes such as undo
+    useEffect(() => setText(value), [value]);
+
+    const commit = () => {
+        if (text !== value) onCommit(text);
+    };
+
+    return (
+        <input
+            type={type}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') setText(value);
+            }}
+            className="w-full px-1.5 py-1 rounded border border-slate-300 font-mono focus:outline-none focus:ring-1 focus:ring-blue-400"
+        />
+    );
+}
+
+function OtherConfig({ value, onCommit }: { value: Record<string, unknown>; onCommit: (value: Record<string, unknown>) => void }) {
+    const initial = Object.keys(value).length > 0 ? JSON.stringify(value, null, 2) : '';
+    const [text, setText] = useState(initial);
+    const [error, setError] = useState<string>();
+
+    const commit = () => {
+        if (text === initial) return;
+        try {
+            const parsed = text.trim() ? JSON.parse(text) : {};
+            if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+                throw new Error('Config must be a JSON object');
+            }
+            setError(undefined);
+            onCommit(parsed as Record<string, unknown>);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid JSON');
+        }
+    };
+
+    return (
+        <div>
+            <div className="text-slate-500 mb-0.5">Other config (JSON)</div>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onBlur={commit}
+                rows={3}
+                placeholder="{}"
+                className="w-full px-1.5 py-1 rounded border border-slate-300 font-mono focus:outline-none focus:ring-1 focus:ring-blue-400"
+            />
+            {error && <div className="text-red-600">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { GripVertical, Plus, Trash2, GitFork } from 'lucide-react';
+import { PipelineStep } from '../../types';
+import { baseTypeName } from '../../utils/pipelineSteps';
+
+/** What is being dragged: a palette type or an existing step. */
+export type DragPayload = { kind: 'new'; type: string } | { kind: 'move'; name: string };
+
+export const DRAG_TYPE = 'application/x-pipeline-step';
+
+export interface OutlineActions {
+    select: (name: string) => void;
+    drop: (payload: DragPayload, parent: string | null, index: number) => void;
+    remove: (name: string) => void;
+    addRoute: (router: string) => void;
+    renameRoute: (router: string, route: string) => void;
+    removeRoute: (router: string, route: string) => void;
+}
+
+interface StepOutlineProps {
+    steps: PipelineStep[];
+    selectedStep: string | null;
+    actions: OutlineActions;
+}
+
+/**
+ * Tree of the edited pipeline. Steps are dragged between the drop zones of
+ * sequences, parallel groups and route groups.
+ */
+export function StepOutline({ steps, selectedStep, actions }: StepOutlineProps) {
+    return (
+        <div className="text-xs">
+            <StepList parent={null} steps={steps} depth={0} selectedStep={selectedStep} actions={actions} />
+        </div>
+    );
+}
+
+interface StepListProps {
+    parent: string | null;
+    steps: PipelineStep[];
+    depth: number;
+    selectedStep: string | null;
+    actions: OutlineActions;
+}
+
+function StepList({ parent, steps, depth, selectedStep, actions }: StepListProps) {
+    return (
+        <div>
+            {steps.map((step, index) => (
+                <div key={step.name}>
+                    <DropZone parent={parent} index={index} depth={depth} actions={actions} />
+                    <StepRow step={step} depth={depth} selectedStep={selectedStep} actions={actions} />
+                </div>
+            ))}
+            <DropZone parent={parent} index={steps.length} depth={depth} actions={actions} empty={steps.length === 0} />
+        </div>
+    );
+}
+
+interface StepRowProps {
+    step: PipelineStep;
+    depth: number;
+    selectedStep: string | null;
+    actions: OutlineActions;
+    /** Target of a route: removed with its route and not draggable. */
+    routeRoot?: boolean;
+}
+
+function StepRow({ step, depth, selectedStep, actions, routeRoot }: StepRowProps) {
+    return (
+        <>
+            <div
+                draggable={!routeRoot}
+                onDragStart={(e) => {
+                    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ kind: 'move', name: step.name } satisfies DragPayload));
+                    e.dataTransfer.effectAllowed = 'move';
+                }}
+                onClick={() => actions.select(step.name)}
+                className={clsx(
+                    'group flex items-center gap-1 py-1 pr-1 rounded cursor-pointer',
+                    step.name === selectedStep ? 'bg-blue-100 text-blue-800' : 'hover:bg-slate-100 text-slate-700'
+                )}
+                style={{ paddingLeft: depth * 14 + 4 }}
+            >
+                <GripVertical className={clsx('w-3 h-3 shrink-0', routeRoot ? 'invisible' : 'text-slate-400 cursor-grab')} />
+                <span className="font-medium truncate">{step.name}</span>
+                <span className="text-slate-400 font-mono truncate">{baseTypeName(step.type)}</span>
+                <button
+                    onClick={(e) => { e.stopPropagation(); actions.remove(step.name); }}
+                    className="ml-auto p-0.5 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                    title={routeRoot ? 'Remove route' : 'Remove step'}
+                >
+                    <Trash2 className="w-3 h-3" />
+                </button>
+            </div>
+
+            {step.steps && (
+                <StepList parent={step.name} steps={step.steps} depth={depth + 1} selectedStep={selectedStep} actions={actions} />
+            )}
+
+            {step.routes && (
+                <div>
+                    {Object.entries(step.routes).map(([route, target]) => (
+                        <div key={route}>
+                            <div
+                                className="group flex items-center gap-1 py-0.5 text-amber-700"
+                                style={{ paddingLeft: (depth + 1) * 14 + 4 }}
+                            >
+                                <GitFork className="w-3 h-3 shrink-0" />
+                                <button onClick={() => actions.renameRoute(step.name, route)} className="font-mono hover:underline" title="Rename route">
+                                    {route}
+                                </button>
+                                {step.defaultRoute === route && <span className="text-slate-400">(default)</span>}
+                                <button
+                                    onClick={() => actions.removeRoute(step.name, route)}
+                                    className="ml-auto p-0.5 text-slate-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                                    title="Remove route"
+                                >
+                                    <Trash2 className="w-3 h-3" />
+                                </button>
+                            </div>
+                            <StepRow step={target} depth={depth + 2} selectedStep={selectedStep} actions={actions} routeRoot />
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => actions.addRoute(step.name)}
+                        className="flex items-center gap-1 py-0.5 text-slate-500 hover:text-amber-700"
+                        style={{ paddingLeft: (depth + 1) * 14 + 4 }}
+                    >
+                        <Plus className="w-3 h-3" /> Add route
+                    </button>
+                </div>
+            )}
+        </>
+    );
+}
+
+interface DropZoneProps {
+    parent: string | null;
+    index: number;
+    depth: number;
+    actions: OutlineActions;
+    empty?: boolean;
+}
+
+function DropZone({ parent, index, depth, actions, empty }: DropZoneProps) {
+    const [over, setOver] = useState(false);
+
+    return (
+        <div
+            onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                e.preventDefault();
+                setOver(true);
+            }}
+            onDragLeave={() => setOver(false)}
+            onDrop={(e) => {
+                e.preventDefault();
+                setOver(false);
+                const raw = e.dataTransfer.getData(DRAG_TYPE);
+                if (raw) actions.drop(JSON.parse(raw) as DragPayload, parent, index);
+            }}
+            className={clsx(
+                'rounded transition-all',
+                empty ? 'h-6 border border-dashed text-[10px] flex items-center px-2' : 'h-1.5',
+                over ? 'bg-blue-200 border-blue-400' : empty ? 'border-slate-300 text-slate-400' : ''
+            )}
+            style={{ marginLeft: depth * 14 + 4 }}
+        >
+            {empty && 'Drop steps here'}
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { PipelineEditor } from './PipelineEditor';
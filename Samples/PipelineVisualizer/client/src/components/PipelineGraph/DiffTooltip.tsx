@@ -0,0 +1,70 @@
+import { clsx } from 'clsx';
+import { StepChangeKind, StepDiff } from '../../types';
+
+export const diffStyles: Record<StepChangeKind, { node: string; group: string; badge: string; symbol: string; label: string }> = {
+    added: {
+        node: '!border-green-500 !bg-green-50',
+        group: 'border-green-500 bg-green-50/30',
+        badge: 'bg-green-100 border-green-300 text-green-700',
+        symbol: '+',
+        label: 'Added',
+    },
+    removed: {
+        node: '!border-red-400 !bg-red-50 border-dashed opacity-70',
+        group: 'border-red-400 border-dashed bg-red-50/30',
+        badge: 'bg-red-100 border-red-300 text-red-700',
+        symbol: '−',
+        label: 'Removed',
+    },
+    modified: {
+        node: '!border-amber-500 !bg-amber-50',
+        group: 'border-amber-500 bg-amber-50/30',
+        badge: 'bg-amber-100 border-amber-300 text-amber-700',
+        symbol: '~',
+        label: 'Modified',
+    },
+    unchanged: {
+        node: '',
+        group: 'border-slate-300 bg-slate-50/30',
+        badge: '',
+        symbol: '',
+        label: 'Unchanged',
+    },
+};
+
+/**
+ * Change badge of a step in a definition diff. Hovering the step shows the
+ * field-level changes.
+ */
+export function DiffTooltip({ diff }: { diff: StepDiff }) {
+    if (diff.kind === 'unchanged') return null;
+    const style = diffStyles[diff.kind];
+
+    return (
+        <>
+            <div className={clsx(
+                'absolute -bottom-2 -right-2 w-5 h-5 rounded-full border shadow-sm text-xs font-bold flex items-center justify-center',
+                style.badge
+            )}>
+                {style.symbol}
+            </div>
+
+            <div className="hidden group-hover:block absolute left-0 top-full mt-2 z-50 min-w-[220px] max-w-[320px] p-2 rounded-lg bg-slate-900 text-white text-[11px] shadow-xl pointer-events-none">
+                <div className="font-semibold mb-1">{style.label}</div>
+                {diff.changes.map(change => (
+                    <div key={change.field} className="font-mono">
+                        <span className="text-slate-400">{change.field}: </span>
+                        <span className="text-red-300 line-through">{formatValue(change.before)}</span>
+                        {' → '}
+                        <span className="text-green-300">{formatValue(change.after)}</span>
+                    </div>
+                ))}
+            </div>
+        </>
+    );
+}
+
+function formatValue(value: unknown): string {
+    if (value === undefined) return '(none)';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
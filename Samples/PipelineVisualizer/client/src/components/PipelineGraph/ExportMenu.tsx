@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { Edge, Node, useReactFlow } from 'reactflow';
+import { clsx } from 'clsx';
+import { Download, Copy, ChevronDown, ChevronRight } from 'lucide-react';
+import { FoldSummary, PipelineDefinition, StepChangeKind } from '../../types';
+import { downloadExport, exportFileName, ExportEdge, ExportNode, renderSvg, svgToPng, toDot, toMermaid } from '../../services/graphExport';
+
+interface ExportMenuProps {
+    pipeline: PipelineDefinition;
+    /** Vertical layouts connect nodes top to bottom. */
+    vertical: boolean;
+}
+
+const diffColours: Record<StepChangeKind, { fill: string; stroke: string } | undefined> = {
+    added: { fill: '#f0fdf4', stroke: '#22c55e' },
+    removed: { fill: '#fef2f2', stroke: '#f87171' },
+    modified: { fill: '#fffbeb', stroke: '#f59e0b' },
+    unchanged: undefined,
+};
+
+/**
+ * Graph panel exporting the current layout as an image, with the run's status
+ * colouring, or the definition as a Mermaid or DOT diagram.
+ */
+export function ExportMenu({ pipeline, vertical }: ExportMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+    const [copied, setCopied] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const { getNodes, getEdges } = useReactFlow();
+    const fileName = exportFileName(pipeline);
+
+    const currentSvg = () => renderSvg(getNodes().map(toExportNode), getEdges().map(toExportEdge), vertical);
+
+    const exportPng = async () => {
+        try {
+            setError(null);
+            downloadExport(await svgToPng(currentSvg()), `${fileName}.png`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'PNG export failed');
+        }
+    };
+
+    const copy = async (format: string, text: string) => {
+        try {
+            setError(null);
+            await navigator.clipboard.writeText(text);
+            setCopied(format);
+            setTimeout(() => setCopied(null), 1500);
+        } catch {
+            setError('The clipboard is not available');
+        }
+    };
+
+    const textFormats = [
+        { format: 'Mermaid', extension: 'mmd', render: () => toMermaid(pipeline) },
+        { format: 'DOT', extension: 'dot', render: () => toDot(pipeline) },
+    ];
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors border",
+                    isOpen ? "bg-slate-100 text-slate-700 border-slate-200" : "hover:bg-slate-100 text-slate-600 border-transparent"
+                )}
+            >
+                <Download className="w-4 h-4" />
+                Export
+                {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-slate-200 text-xs z-10 p-1">
+                    <button
+                        onClick={() => downloadExport(currentSvg(), `${fileName}.svg`, 'image/svg+xml')}
+                        className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-50 text-slate-700"
+                    >
+                        SVG image
+                    </button>
+                    <button
+                        onClick={exportPng}
+                        className="w-full text-left px-2 py-1.5 rounded hover:bg-slate-50 text-slate-700"
+                    >
+                        PNG image
+                    </button>
+                    <div className="border-t border-slate-100 my-1" />
+                    {textFormats.map(({ format, extension, render }) => (
+                        <div key={format} className="flex items-center gap-1 px-2 py-1 text-slate-700">
+                            <span className="flex-1">{format}</span>
+                            <button
+                                onClick={() => copy(format, render())}
+                                className="p-1 rounded hover:bg-slate-100"
+                                title={`Copy ${format}`}
+                            >
+                                {copied === format ? <span className="text-green-600">Copied</span> : <Copy className="w-3.5 h-3.5" />}
+                            </button>
+                            <button
+                                onClick={() => downloadExport(render(), `${fileName}.${extension}`)}
+                                className="p-1 rounded hover:bg-slate-100"
+                                title={`Download ${format}`}
+                            >
+                                <Download className="w-3.5 h-3.5" />
+                            </button>
+                        </div>
+                    ))}
+                    {error && <div className="px-2 py-1 text-red-600">{error}</div>}
+                </div>
+            )}
+        </div>
+    );
+}
+
+/** A node as drawn, coloured like StepNode, GroupNode and SummaryNode. */
+function toExportNode(node: Node): ExportNode {
+    const data = node.data;
+    const position = node.positionAbsolute ?? node.position;
+    const container = node.type === 'groupNode';
+    const colours = (data.diff && diffColours[data.diff.kind as StepChangeKind])
+        ?? (data.hasError ? { fill: '#fef2f2', stroke: '#ef4444' }
+            : data.isInterrupted ? { fill: '#fff7ed', stroke: '#fb923c' }
+                : data.isActive ? { fill: '#eff6ff', stroke: '#3b82f6' }
+                    : data.isCompleted ? { fill: '#f0fdf4', stroke: '#22c55e' }
+                        : { fill: container ? '#f8fafc' : '#ffffff', stroke: container ? '#cbd5e1' : '#94a3b8' });
+
+    return {
+        id: node.id,
+        label: data.label,
+        detail: node.type === 'summaryNode' ? summaryDetail(data.summary)
+            : node.type === 'stepNode' && data.stepType !== 'Input' ? data.stepType.split('`')[0] : undefined,
+        x: position.x,
+        y: position.y,
+        width: node.width ?? 180,
+        height: node.height ?? 60,
+        ...colours,
+        dashed: data.isInterrupted || data.diff?.kind === 'removed',
+        opacity: data.isDimmed ? 0.25 : undefined,
+        container,
+    };
+}
+
+function summaryDetail(summary?: FoldSummary): string | undefined {
+    if (!summary) return undefined;
+    const counts = [
+        summary.running > 0 && `${summary.running} running`,
+        summary.done > 0 && `${summary.done} done`,
+        summary.failed > 0 && `${summary.failed} failed`,
+    ].filter(Boolean);
+    return [`${summary.steps} steps`, ...counts].join(' · ');
+}
+
+function toExportEdge(edge: Edge): ExportEdge {
+    const style = edge.style ?? {};
+    return {
+        source: edge.source,
+        target: edge.target,
+        label: edge.data?.route ?? (typeof edge.label === 'string' ? edge.label : undefined),
+        stroke: typeof style.stroke === 'string' ? style.stroke : '#94a3b8',
+        strokeWidth: typeof style.strokeWidth === 'number' ? style.strokeWidth : 2,
+        dashArray: typeof style.strokeDasharray === 'string' ? style.strokeDasharray : undefined,
+        opacity: typeof style.opacity === 'number' ? style.opacity : undefined,
+    };
+}
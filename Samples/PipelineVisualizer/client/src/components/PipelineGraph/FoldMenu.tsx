@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { FoldVertical, ChevronDown, ChevronRight } from 'lucide-react';
+import { PipelineStep } from '../../types';
+
+interface FoldMenuProps {
+    foldable: PipelineStep[];
+    collapsed: Set<string>;
+    onToggle: (stepName: string) => void;
+    onSetAll: (collapsed: boolean) => void;
+}
+
+/**
+ * Graph panel listing the subgraphs that can collapse into a summary node.
+ */
+export function FoldMenu({ foldable, collapsed, onToggle, onSetAll }: FoldMenuProps) {
+    const [isOpen, setIsOpen] = useState(false);
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setIsOpen(!isOpen)}
+                className={clsx(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors border",
+                    isOpen ? "bg-slate-100 text-slate-700 border-slate-200" : "hover:bg-slate-100 text-slate-600 border-transparent"
+                )}
+            >
+                <FoldVertical className="w-4 h-4" />
+                Folds
+                <span className="text-xs text-slate-400">{collapsed.size}/{foldable.length}</span>
+                {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-64 bg-white rounded-lg shadow-lg border border-slate-200 text-xs z-10">
+                    <div className="flex gap-1 p-2 border-b border-slate-100">
+                        <button
+                            onClick={() => onSetAll(true)}
+                            className="flex-1 px-2 py-1 rounded bg-slate-100 hover:bg-slate-200 text-slate-700"
+                        >
+                            Collapse all
+                        </button>
+                        <button
+                            onClick={() => onSetAll(false)}
+                            className="flex-1 px-2 py-1 rounded bg-slate-100 hover:bg-slate-200 text-slate-700"
+                        >
+                            Expand all
+                        </button>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto p-1">
+                        {foldable.map(step => (
+                            <label
+                                key={step.name}
+                                className="flex items-center gap-2 px-2 py-1 rounded hover:bg-slate-50 text-slate-700 cursor-pointer"
+                            >
+                                <input
+                                    type="checkbox"
+                                    checked={collapsed.has(step.name)}
+                                    onChange={() => onToggle(step.name)}
+                                />
+                                <span className="font-medium truncate">{step.name}</span>
+                                <span className="ml-auto font-mono text-slate-400 truncate">{step.type.split('`')[0]}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
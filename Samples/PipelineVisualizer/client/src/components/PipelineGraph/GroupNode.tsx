@@ -1,27 +1,34 @@
 import { memo } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
 import { clsx } from 'clsx';
-import { Layers, Loader2, CheckCircle } from 'lucide-react';
+import { Layers, Loader2, CheckCircle, Minimize2 } from 'lucide-react';
+import { StepDiff } from '../../types';
+import { DiffTooltip, diffStyles } from './DiffTooltip';
 
 interface GroupNodeData {
     label: string;
+    /** The step the container belongs to, when its id is not the step name. */
+    stepName?: string;
     isActive: boolean;
     isCompleted: boolean;
-    layout?: 'horizontal-compact' | 'vertical-grouped';
+    isDimmed?: boolean;
+    diff?: StepDiff;
+    onToggleFold?: (stepName: string) => void;
+    layout?: 'horizontal-compact' | 'vertical-grouped' | 'nested';
 }
 
 /**
- * Custom node component for Group/Parallel steps.
+ * Custom node component for Group/Parallel steps, and for routers in the nested layout.
  * Renders as a container with a header and handles.
  */
-export const GroupNode = memo(({ data }: NodeProps<GroupNodeData>) => {
-    const isVertical = data.layout === 'vertical-grouped';
+export const GroupNode = memo(({ id, data }: NodeProps<GroupNodeData>) => {
+    const isVertical = data.layout === 'vertical-grouped' || data.layout === 'nested';
     const targetHandlePosition = isVertical ? Position.Top : Position.Left;
     const sourceHandlePosition = isVertical ? Position.Bottom : Position.Right;
     // style prop is handled by wrapper if needed, but not passed here by default in v11?
 
     return (
-        <div className="h-full w-full relative">
+        <div className={clsx('group h-full w-full relative transition-opacity', data.isDimmed && 'opacity-25 grayscale')}>
             <div
                 className={clsx(
                     'absolute inset-0 rounded-xl border-2 transition-all duration-300',
@@ -29,8 +36,9 @@ export const GroupNode = memo(({ data }: NodeProps<GroupNodeData>) => {
                     {
                         'border-blue-400 bg-blue-50/30 ring-4 ring-blue-400 ring-opacity-20': data.isActive,
                         'border-green-500 bg-green-50/30': data.isCompleted,
-                        'border-slate-300 bg-slate-50/30': !data.isActive && !data.isCompleted,
-                    }
+                        'border-slate-300 bg-slate-50/30': !data.isActive && !data.isCompleted && !data.diff,
+                    },
+                    data.diff && diffStyles[data.diff.kind].group
                 )}
             >
                 {/* Header Badge */}
@@ -44,9 +52,23 @@ export const GroupNode = memo(({ data }: NodeProps<GroupNodeData>) => {
                         data.isCompleted ? <CheckCircle className="w-3 h-3" /> :
                             <Layers className="w-3 h-3" />}
                     {data.label}
+                    {data.onToggleFold && (
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                data.onToggleFold?.(data.stepName ?? id);
+                            }}
+                            className="pointer-events-auto ml-1 p-0.5 rounded hover:bg-slate-200/70"
+                            title="Collapse"
+                        >
+                            <Minimize2 className="w-3 h-3" />
+                        </button>
+                    )}
                 </div>
             </div>
 
+            {data.diff && <DiffTooltip diff={data.diff} />}
+
             {/* Input Handle */}
             <Handle
                 type="target"
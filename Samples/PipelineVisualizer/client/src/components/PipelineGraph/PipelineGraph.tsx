@@ -12,22 +12,59 @@ import ReactFlow, {
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import dagre from 'dagre';
-import { PipelineStep, PipelineDefinition } from '../../types';
+import { PipelineStep, PipelineDefinition, ToolCall, TagSpan, ValidationAttempt, RoutingDecision, StepDiff } from '../../types';
+import { countToolCalls } from '../../services/toolCalls';
+import { findOpenTags } from '../../services/tagSpans';
+import { summarizeValidations } from '../../services/validation';
+import { findUntakenSteps, isTakenRoute } from '../../services/routing';
+import { findHiddenSteps, summarizeFold } from '../../services/folds';
+import { checkTypeFlow } from '../../services/typeFlow';
+import { findStep, isGroupStep, isParallelStep } from '../../utils/pipelineSteps';
+import { useGraphFolds } from '../../hooks';
 import { StepNode } from './StepNode';
 import { GroupNode } from './GroupNode';
+import { SummaryNode } from './SummaryNode';
+import { SelfLoopEdge } from './SelfLoopEdge';
+import { RouteEdge, RouteState } from './RouteEdge';
+import { TypeProblems } from './TypeProblems';
+import { FoldMenu } from './FoldMenu';
+import { ExportMenu } from './ExportMenu';
 import clsx from 'clsx';
-import { Layout, GitFork } from 'lucide-react';
+import { Layout, GitFork, Boxes } from 'lucide-react';
 
 interface PipelineGraphProps {
     pipeline: PipelineDefinition | null;
     activeSteps: string[];
     completedSteps: string[];
     failedSteps?: string[];
+    /** Steps that were running when the run was cancelled. */
+    interruptedSteps?: string[];
+    toolCalls?: ToolCall[];
+    tagSpans?: Record<string, TagSpan[]>;
+    validations?: Record<string, ValidationAttempt[]>;
+    routing?: Record<string, RoutingDecision>;
+    selectedStep?: string | null;
+    onStepSelect?: (stepName: string | null) => void;
+    /** Change of every step when the pipeline is a merged definition diff. */
+    diff?: Record<string, StepDiff>;
 }
 
-type LayoutMode = 'horizontal-compact' | 'vertical-grouped';
-
-export function PipelineGraph({ pipeline, activeSteps, completedSteps, failedSteps = [] }: PipelineGraphProps) {
+type LayoutMode = 'horizontal-compact' | 'vertical-grouped' | 'nested';
+
+export function PipelineGraph({
+    pipeline,
+    activeSteps,
+    completedSteps,
+    failedSteps = [],
+    interruptedSteps = [],
+    toolCalls = [],
+    tagSpans = {},
+    validations = {},
+    routing = {},
+    selectedStep = null,
+    onStepSelect,
+    diff,
+}: PipelineGraphProps) {
     const [nodes, setNodes, onNodesChange] = useNodesState([]);
     const [edges, setEdges, onEdgesChange] = useEdgesState([]);
     const [layoutMode, setLayoutMode] = useState<LayoutMode>('horizontal-compact');
@@ -35,8 +72,36 @@ export function PipelineGraph({ pipeline, activeSteps, completedSteps, failedSte
     const nodeTypes = useMemo(() => ({
         stepNode: StepNode,
         groupNode: GroupNode,
+        summaryNode: SummaryNode,
+    }), []);
+
+    const edgeTypes = useMemo(() => ({
+        selfLoop: SelfLoopEdge,
+        route: RouteEdge,
     }), []);
 
+    const validationSummaries = useMemo(
+        () => summarizeValidations(validations, activeSteps),
+        [validations, activeSteps]
+    );
+
+    const typeMismatches = useMemo(
+        () => pipeline ? checkTypeFlow(pipeline.pipeline) : [],
+        [pipeline]
+    );
+
+    const untakenSteps = useMemo(
+        () => pipeline ? findUntakenSteps(pipeline.pipeline, routing) : new Set<string>(),
+        [pipeline, routing]
+    );
+
+    const { foldable, collapsed, toggleFold, setAllFolds } = useGraphFolds(pipeline, routing);
+
+    const hiddenSteps = useMemo(
+        () => pipeline ? findHiddenSteps(pipeline.pipeline, collapsed) : new Set<string>(),
+        [pipeline, collapsed]
+    );
+
     useEffect(() => {
         if (!pipeline) {
             setNodes([]);
@@ -44,33 +109,105 @@ export function PipelineGraph({ pipeline, activeSteps, completedSteps, failedSte
             return;
         }
 
-        const engine = new GraphEngine(pipeline);
+        const engine = new GraphEngine(pipeline, collapsed);
         const { nodes: layoutedNodes, edges: layoutedEdges } = engine.computeLayout(layoutMode);
 
         setNodes(layoutedNodes);
         setEdges(layoutedEdges);
-    }, [pipeline, setNodes, setEdges, layoutMode]);
+    }, [pipeline, collapsed, setNodes, setEdges, layoutMode]);
 
-    // Update node states dynamically
+    // Update node states dynamically; summary nodes take theirs from the steps they fold
     useEffect(() => {
+        const toolCallCounts = countToolCalls(toolCalls);
+        const openTags = findOpenTags(tagSpans);
         setNodes((nds) =>
-            nds.map((node) => ({
-                ...node,
-                data: {
+            nds.map((node) => {
+                const data = {
                     ...node.data,
                     isActive: activeSteps.includes(node.id),
                     isCompleted: completedSteps.includes(node.id),
                     hasError: failedSteps.includes(node.id),
-                },
-            }))
+                    isInterrupted: interruptedSteps.includes(node.id),
+                    toolCalls: toolCallCounts[node.id],
+                    openTag: openTags[node.id],
+                    validation: validationSummaries[node.id],
+                    isSelected: node.id === selectedStep,
+                    isDimmed: untakenSteps.has(node.id),
+                    diff: diff?.[node.id],
+                    onToggleFold: foldable.some(step => step.name === (node.data.stepName ?? node.id)) ? toggleFold : undefined,
+                };
+
+                const step = node.type === 'summaryNode' && pipeline ? findStep(pipeline.pipeline, node.id) : undefined;
+                if (step) {
+                    const summary = summarizeFold(step, activeSteps, completedSteps, failedSteps);
+                    data.summary = summary;
+                    data.isActive = summary.running > 0;
+                    data.isCompleted = summary.steps > 0 && summary.done === summary.steps;
+                    data.hasError = summary.failed > 0;
+                }
+
+                return { ...node, data };
+            })
         );
-    }, [activeSteps, completedSteps, failedSteps, setNodes]);
+    }, [activeSteps, completedSteps, failedSteps, interruptedSteps, toolCalls, tagSpans, validationSummaries, untakenSteps, selectedStep, diff, foldable, toggleFold, pipeline, collapsed, layoutMode, setNodes]);
 
-    // Animate active edges
+    // Self-loop edges for steps that retried after a failed validation
+    useEffect(() => {
+        const loops: Edge[] = Object.entries(validationSummaries)
+            .filter(([stepName, summary]) => summary.failures > 0 && pipeline && findStep(pipeline.pipeline, stepName) && !hiddenSteps.has(stepName))
+            .map(([stepName, summary]) => ({
+                id: `${stepName}-retry`,
+                source: stepName,
+                target: stepName,
+                type: 'selfLoop',
+                animated: summary.retrying,
+                data: { attempts: summary.attempts, retrying: summary.retrying },
+                style: { stroke: summary.retrying ? '#f59e0b' : '#cbd5e1', strokeWidth: 2 },
+            }));
+
+        setEdges((eds) => [...eds.filter((edge) => edge.type !== 'selfLoop'), ...loops]);
+    }, [validationSummaries, hiddenSteps, pipeline, collapsed, layoutMode, setEdges]);
+
+    // Animate active edges; route edges follow the run's routing decisions;
+    // edges with a type mismatch stay red; in a diff, edges of added and removed steps take their colour
     useEffect(() => {
         setEdges((eds) =>
             eds.map((edge) => {
+                if (edge.type === 'selfLoop') return edge;
+
+                const mismatch = typeMismatches.find(m => m.target === edge.target && m.sources.includes(edge.source));
+                if (mismatch) {
+                    return {
+                        ...edge,
+                        animated: false,
+                        label: edge.type === 'route' ? edge.label : `${mismatch.outputType} ⇏ ${mismatch.inputType}`,
+                        labelStyle: { fill: '#b91c1c', fontSize: 10 },
+                        style: { ...edge.style, stroke: '#ef4444', strokeWidth: 3, strokeDasharray: undefined, opacity: 1 },
+                    };
+                }
+
+                const change = diff && [diff[edge.source]?.kind, diff[edge.target]?.kind]
+                    .find((kind): kind is 'added' | 'removed' => kind === 'added' || kind === 'removed');
+                if (change) {
+                    return { ...edge, animated: false, style: { ...edge.style, ...diffEdgeStyles[change] } };
+                }
+
+                if (edge.type === 'route') {
+                    const decision = routing[edge.data.router];
+                    const routeStep = pipeline && findStep(pipeline.pipeline, edge.data.router)?.routes?.[edge.data.route];
+                    const state: RouteState = !decision || !routeStep
+                        ? 'pending'
+                        : isTakenRoute(edge.data.route, routeStep, decision) ? 'taken' : 'untaken';
+                    return {
+                        ...edge,
+                        animated: state === 'taken' && activeSteps.includes(edge.target),
+                        data: { ...edge.data, state, reason: decision?.reason },
+                        style: routeEdgeStyles[state],
+                    };
+                }
+
                 const isActive = activeSteps.includes(edge.source);
+                const isDimmed = untakenSteps.has(edge.source) || untakenSteps.has(edge.target);
                 return {
                     ...edge,
                     animated: isActive,
@@ -78,11 +215,12 @@ export function PipelineGraph({ pipeline, activeSteps, completedSteps, failedSte
                         ...edge.style,
                         stroke: isActive ? '#3b82f6' : '#94a3b8',
                         strokeWidth: isActive ? 3 : 2,
+                        opacity: isDimmed ? 0.25 : 1,
                     }
                 };
             })
         );
-    }, [activeSteps, setEdges]);
+    }, [activeSteps, routing, untakenSteps, typeMismatches, diff, pipeline, collapsed, layoutMode, setEdges]);
 
     if (!pipeline) {
         return (
@@ -96,74 +234,121 @@ export function PipelineGraph({ pipeline, activeSteps, completedSteps, failedSte
     }
 
     return (
-        <div className="h-full w-full bg-slate-50 relative">
-            <ReactFlow
-                nodes={nodes}
-                edges={edges}
-                onNodesChange={onNodesChange}
-                onEdgesChange={onEdgesChange}
-                nodeTypes={nodeTypes}
-                fitView
-                fitViewOptions={{ padding: 0.2 }}
-                minZoom={0.1}
-                maxZoom={2}
-                defaultEdgeOptions={{ type: 'smoothstep', markerEnd: { type: MarkerType.ArrowClosed } }}
-            >
-                <Background color="#cbd5e1" gap={24} size={1} />
-                <Controls className="bg-white shadow-lg border border-slate-200 rounded-lg p-1" />
-                <MiniMap
-                    className="border border-slate-200 shadow-lg rounded-lg overflow-hidden"
-                    nodeColor={(node) => {
-                        if (node.data.hasError) return '#ef4444';
-                        if (node.data.isActive) return '#3b82f6';
-                        if (node.data.isCompleted) return '#22c55e';
-                        return '#e2e8f0';
-                    }}
-                    maskColor="rgba(240, 248, 255, 0.5)"
-                />
-                <Panel position="top-right" className="bg-white p-2 rounded-lg shadow-md border border-slate-200 flex gap-2">
-                    <button
-                        onClick={() => setLayoutMode('horizontal-compact')}
-                        className={clsx(
-                            "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
-                            layoutMode === 'horizontal-compact' 
-                                ? "bg-blue-100 text-blue-700 border border-blue-200" 
-                                : "hover:bg-slate-100 text-slate-600 border border-transparent"
-                        )}
-                    >
-                        <Layout className="w-4 h-4" />
-                        Compact
-                    </button>
-                    <button
-                        onClick={() => setLayoutMode('vertical-grouped')}
-                        className={clsx(
-                            "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
-                            layoutMode === 'vertical-grouped' 
-                                ? "bg-blue-100 text-blue-700 border border-blue-200" 
-                                : "hover:bg-slate-100 text-slate-600 border border-transparent"
+        <div className="h-full w-full bg-slate-50 flex flex-col">
+            <div className="flex-1 relative min-h-0">
+                <ReactFlow
+                    nodes={nodes}
+                    edges={edges}
+                    onNodesChange={onNodesChange}
+                    onEdgesChange={onEdgesChange}
+                    nodeTypes={nodeTypes}
+                    edgeTypes={edgeTypes}
+                    onNodeClick={(_, node) => node.id !== '__INPUT__' && onStepSelect?.(node.data.stepName ?? node.id)}
+                    onPaneClick={() => onStepSelect?.(null)}
+                    fitView
+                    fitViewOptions={{ padding: 0.2 }}
+                    minZoom={0.1}
+                    maxZoom={2}
+                    defaultEdgeOptions={{ type: 'smoothstep', markerEnd: { type: MarkerType.ArrowClosed } }}
+                >
+                    <Background color="#cbd5e1" gap={24} size={1} />
+                    <Controls className="bg-white shadow-lg border border-slate-200 rounded-lg p-1" />
+                    <MiniMap
+                        className="border border-slate-200 shadow-lg rounded-lg overflow-hidden"
+                        nodeColor={(node) => {
+                            if (node.data.hasError) return '#ef4444';
+                            if (node.data.isInterrupted) return '#f97316';
+                            if (node.data.isActive) return '#3b82f6';
+                            if (node.data.isCompleted) return '#22c55e';
+                            return '#e2e8f0';
+                        }}
+                        maskColor="rgba(240, 248, 255, 0.5)"
+                    />
+                    <Panel position="top-right" className="bg-white p-2 rounded-lg shadow-md border border-slate-200 flex gap-2">
+                        <button
+                            onClick={() => setLayoutMode('horizontal-compact')}
+                            className={clsx(
+                                "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                                layoutMode === 'horizontal-compact' 
+                                    ? "bg-blue-100 text-blue-700 border border-blue-200" 
+                                    : "hover:bg-slate-100 text-slate-600 border border-transparent"
+                            )}
+                        >
+                            <Layout className="w-4 h-4" />
+                            Compact
+                        </button>
+                        <button
+                            onClick={() => setLayoutMode('vertical-grouped')}
+                            className={clsx(
+                                "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                                layoutMode === 'vertical-grouped' 
+                                    ? "bg-blue-100 text-blue-700 border border-blue-200" 
+                                    : "hover:bg-slate-100 text-slate-600 border border-transparent"
+                            )}
+                        >
+                            <GitFork className="w-4 h-4 rotate-90" />
+                            Vertical Grouped
+                        </button>
+                        <button
+                            onClick={() => setLayoutMode('nested')}
+                            className={clsx(
+                                "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+                                layoutMode === 'nested'
+                                    ? "bg-blue-100 text-blue-700 border border-blue-200"
+                                    : "hover:bg-slate-100 text-slate-600 border border-transparent"
+                            )}
+                        >
+                            <Boxes className="w-4 h-4" />
+                            Nested
+                        </button>
+                        {foldable.length > 0 && (
+                            <FoldMenu
+                                foldable={foldable}
+                                collapsed={collapsed}
+                                onToggle={toggleFold}
+                                onSetAll={setAllFolds}
+                            />
                         )}
-                    >
-                        <GitFork className="w-4 h-4 rotate-90" />
-                        Vertical Grouped
-                    </button>
-                </Panel>
-            </ReactFlow>
+                        <ExportMenu pipeline={pipeline} vertical={layoutMode !== 'horizontal-compact'} />
+                    </Panel>
+                </ReactFlow>
+            </div>
+            {typeMismatches.length > 0 && (
+                <TypeProblems mismatches={typeMismatches} onSelect={(stepName) => onStepSelect?.(stepName)} />
+            )}
         </div>
     );
 }
 
+const diffEdgeStyles: Record<'added' | 'removed', React.CSSProperties> = {
+    added: { stroke: '#22c55e', strokeWidth: 2, strokeDasharray: undefined, opacity: 1 },
+    removed: { stroke: '#f87171', strokeWidth: 2, strokeDasharray: '6 4', opacity: 1 },
+};
+
+/** Id suffix of the container holding a router and its routes in the nested layout. */
+const ROUTES_CONTAINER_SUFFIX = '::routes';
+
+const routeEdgeStyles: Record<RouteState, React.CSSProperties> = {
+    pending: { stroke: '#f59e0b', strokeWidth: 2, strokeDasharray: '6 4' },
+    taken: { stroke: '#22c55e', strokeWidth: 3 },
+    untaken: { stroke: '#cbd5e1', strokeWidth: 2, strokeDasharray: '6 4', opacity: 0.35 },
+};
+
 // ==========================================
 // GRAPH ENGINE (DUAL MODE)
 // ==========================================
 
 class GraphEngine {
     private pipeline: PipelineDefinition;
+    /** Steps drawn as one summary node instead of their subgraph. */
+    private collapsed: Set<string>;
     private nodes: Node[] = [];
     private edges: Edge[] = [];
     private layoutMode: LayoutMode = 'horizontal-compact';
 
-    constructor(pipeline: PipelineDefinition) {
+    constructor(pipeline: PipelineDefinition, collapsed: Set<string> = new Set()) {
         this.pipeline = pipeline;
+        this.collapsed = collapsed;
     }
 
     public computeLayout(mode: LayoutMode) {
@@ -188,6 +373,11 @@ class GraphEngine {
                 position: { x: 0, y: 0 },
             });
 
+            if (mode === 'nested') {
+                this.processSequenceNested(this.pipeline.pipeline, undefined, [inputId]);
+                return this.applyNestedLayout(this.nodes, this.edges);
+            }
+
             this.processSequenceGrouped(this.pipeline.pipeline, undefined, [inputId]);
         }
 
@@ -211,9 +401,17 @@ class GraphEngine {
         const hasChildren = step.steps && step.steps.length > 0;
         const isRouter = !!step.routes;
 
-        // Unwrap logical groups (Phases)
+        if (this.collapsed.has(step.name)) {
+            return this.addSummaryNode(step, undefined, incomingNodeIds, edgeLabel, '#64748b');
+        }
+
+        // Unwrap logical groups (Phases); a route into the group leads to its first step
         if (hasChildren && !isParallel && !isRouter) {
-            return this.processSequenceCompact(step.steps!, incomingNodeIds);
+            let currentTails = incomingNodeIds;
+            step.steps!.forEach((child, index) => {
+                currentTails = this.processStepCompact(child, currentTails, index === 0 ? edgeLabel : undefined);
+            });
+            return currentTails;
         }
 
         const nodeId = step.name;
@@ -238,10 +436,10 @@ class GraphEngine {
                     id: `${prevId}-${nodeId}`,
                     source: prevId,
                     target: nodeId,
-                    label: edgeLabel,
                     type: 'smoothstep',
                     markerEnd: { type: MarkerType.ArrowClosed },
-                    style: { stroke: edgeLabel ? '#f59e0b' : '#64748b', strokeWidth: 2 },
+                    style: { stroke: '#64748b', strokeWidth: 2 },
+                    ...this.routeEdgeProps(prevId, edgeLabel),
                 });
             });
         }
@@ -285,6 +483,10 @@ class GraphEngine {
         const isRouter = baseType.endsWith('RouterStep') || !!step.routes;
         const hasChildren = step.steps && step.steps.length > 0;
 
+        if (this.collapsed.has(step.name)) {
+            return this.addSummaryNode(step, parentId, incomingNodeIds, edgeLabel, '#94a3b8');
+        }
+
         if (hasChildren && !isParallel && !isRouter) {
             let currentTails = incomingNodeIds;
             let first = true;
@@ -350,6 +552,7 @@ class GraphEngine {
                         type: 'smoothstep',
                         markerEnd: { type: MarkerType.ArrowClosed },
                         style: { stroke: '#94a3b8', strokeWidth: 2 },
+                        ...this.routeEdgeProps(prevId, edgeLabel),
                     });
                 });
             }
@@ -375,21 +578,14 @@ class GraphEngine {
 
         if (incomingNodeIds.length > 0) {
             incomingNodeIds.forEach(prevId => {
-                const isRouteEdge = !!edgeLabel;
                 this.edges.push({
                     id: `${prevId}-${nodeId}`,
                     source: prevId,
                     target: nodeId,
-                    label: edgeLabel,
                     type: 'smoothstep',
                     markerEnd: { type: MarkerType.ArrowClosed },
-                    style: isRouteEdge
-                        ? {
-                            stroke: edgeLabel === 'NewStory' ? '#22c55e' : '#cbd5e1',
-                            strokeWidth: 2,
-                            strokeDasharray: '6 4',
-                        }
-                        : { stroke: '#94a3b8', strokeWidth: 2 },
+                    style: { stroke: '#94a3b8', strokeWidth: 2 },
+                    ...this.routeEdgeProps(prevId, edgeLabel),
                 });
             });
         }
@@ -406,10 +602,230 @@ class GraphEngine {
         return [nodeId];
     }
 
+    // ==========================================
+    // NESTED MODE LOGIC (Vertical, Containers to any depth)
+    // ==========================================
+
+    private processSequenceNested(steps: PipelineStep[], parentId: string | undefined, previousNodeIds: string[], edgeLabel?: string): string[] {
+        let currentPrev = previousNodeIds;
+        steps.forEach((step, index) => {
+            currentPrev = this.processStepNested(step, parentId, currentPrev, index === 0 ? edgeLabel : undefined);
+        });
+        return currentPrev;
+    }
+
+    /**
+     * Groups, parallel steps and routers become containers holding their children;
+     * edges run between the steps themselves, across container borders.
+     * A router's container holds the router step followed by its routes.
+     */
+    private processStepNested(step: PipelineStep, parentId: string | undefined, incomingNodeIds: string[], edgeLabel?: string): string[] {
+        if (this.collapsed.has(step.name)) {
+            return this.addSummaryNode(step, parentId, incomingNodeIds, edgeLabel, '#94a3b8');
+        }
+
+        if (isGroupStep(step)) {
+            this.addContainerNode(step.name, step.name, parentId);
+            return this.processSequenceNested(step.steps!, step.name, incomingNodeIds, edgeLabel);
+        }
+
+        if (isParallelStep(step) && step.steps) {
+            this.addContainerNode(step.name, step.name, parentId);
+            return step.steps.flatMap(child => this.processStepNested(child, step.name, incomingNodeIds, edgeLabel));
+        }
+
+        const containerId = step.routes ? `${step.name}${ROUTES_CONTAINER_SUFFIX}` : undefined;
+        if (containerId) {
+            this.addContainerNode(containerId, step.name, parentId, step.name);
+        }
+
+        const nodeId = step.name;
+        this.nodes.push({
+            id: nodeId,
+            type: 'stepNode',
+            data: {
+                label: step.name,
+                stepType: step.type,
+                stepTypeMetadata: this.pipeline.stepTypes?.[step.type.split('`')[0]],
+                isActive: false,
+                isCompleted: false,
+                layout: this.layoutMode,
+            },
+            position: { x: 0, y: 0 },
+            parentNode: containerId ?? parentId,
+            extent: containerId ?? parentId ? 'parent' : undefined,
+        });
+
+        incomingNodeIds.forEach(prevId => {
+            this.edges.push({
+                id: `${prevId}-${nodeId}`,
+                source: prevId,
+                target: nodeId,
+                type: 'smoothstep',
+                markerEnd: { type: MarkerType.ArrowClosed },
+                style: { stroke: '#94a3b8', strokeWidth: 2 },
+                ...this.routeEdgeProps(prevId, edgeLabel),
+            });
+        });
+
+        if (containerId && step.routes) {
+            return Object.entries(step.routes).flatMap(([routeName, routeStep]) =>
+                this.processStepNested(routeStep, containerId, [nodeId], routeName));
+        }
+
+        return [nodeId];
+    }
+
+    /** Sized later by applyNestedLayout, once its contents are laid out. */
+    private addContainerNode(id: string, label: string, parentId: string | undefined, stepName?: string) {
+        this.nodes.push({
+            id,
+            type: 'groupNode',
+            data: { label, stepName, isActive: false, isCompleted: false, layout: this.layoutMode },
+            position: { x: 0, y: 0 },
+            parentNode: parentId,
+            extent: parentId ? 'parent' : undefined,
+        });
+    }
+
+    /**
+     * A collapsed subgraph as one node; edges into the subgraph lead to it
+     * and the steps after the subgraph continue from it.
+     */
+    private addSummaryNode(step: PipelineStep, parentId: string | undefined, incomingNodeIds: string[], edgeLabel: string | undefined, stroke: string): string[] {
+        const nodeId = step.name;
+
+        this.nodes.push({
+            id: nodeId,
+            type: 'summaryNode',
+            data: {
+                label: step.name,
+                stepType: step.type,
+                routeLabel: edgeLabel,
+                isActive: false,
+                isCompleted: false,
+                layout: this.layoutMode,
+            },
+            position: { x: 0, y: 0 },
+            parentNode: parentId,
+            extent: parentId ? 'parent' : undefined,
+        });
+
+        incomingNodeIds.forEach(prevId => {
+            this.edges.push({
+                id: `${prevId}-${nodeId}`,
+                source: prevId,
+                target: nodeId,
+                type: 'smoothstep',
+                markerEnd: { type: MarkerType.ArrowClosed },
+                style: { stroke, strokeWidth: 2 },
+                ...this.routeEdgeProps(prevId, edgeLabel),
+            });
+        });
+
+        return [nodeId];
+    }
+
+    /**
+     * Edge properties for the edge from a router to the first step of one of its routes.
+     */
+    private routeEdgeProps(routerId: string, routeName?: string): Partial<Edge> {
+        if (!routeName) return {};
+        return {
+            type: 'route',
+            data: { router: routerId, route: routeName },
+            style: routeEdgeStyles.pending,
+        };
+    }
+
     // ==========================================
     // LAYOUT APPLICATION
     // ==========================================
 
+    /**
+     * Lays out every container's children with their own dagre graph, innermost first,
+     * so each container is sized to fit its laid-out contents. An edge between nested
+     * steps ranks the children of the container that hold its two ends.
+     */
+    private applyNestedLayout(nodes: Node[], edges: Edge[]) {
+        const padding = 24;
+        const headerSpace = 26;
+        const byId = new Map(nodes.map(node => [node.id, node]));
+        const childrenOf = new Map<string | undefined, Node[]>();
+        nodes.forEach(node => {
+            const siblings = childrenOf.get(node.parentNode) ?? [];
+            siblings.push(node);
+            childrenOf.set(node.parentNode, siblings);
+        });
+
+        // The ancestor of a node (or the node itself) that sits directly in the container
+        const childIn = (containerId: string | undefined, nodeId: string): string | undefined => {
+            let node = byId.get(nodeId);
+            while (node && node.parentNode !== containerId) {
+                node = node.parentNode ? byId.get(node.parentNode) : undefined;
+            }
+            return node?.id;
+        };
+
+        const positions = new Map<string, { x: number; y: number }>();
+        const sizes = new Map<string, { width: number; height: number }>();
+
+        const layoutContainer = (containerId: string | undefined): { width: number; height: number } => {
+            const children = childrenOf.get(containerId) ?? [];
+            const inset = containerId ? { x: padding, y: headerSpace + padding } : { x: 30, y: 30 };
+            const graph = new dagre.graphlib.Graph({ compound: false });
+            graph.setGraph({ rankdir: 'TB', align: 'UL', nodesep: 40, ranksep: 60, marginx: 0, marginy: 0, ranker: 'network-simplex' });
+            graph.setDefaultEdgeLabel(() => ({}));
+
+            children.forEach(child => {
+                const size = childrenOf.has(child.id) ? layoutContainer(child.id) : { width: 180, height: 60 };
+                sizes.set(child.id, size);
+                graph.setNode(child.id, size);
+            });
+
+            edges.forEach(edge => {
+                const source = childIn(containerId, edge.source);
+                const target = childIn(containerId, edge.target);
+                if (source && target && source !== target) {
+                    graph.setEdge(source, target);
+                }
+            });
+
+            try {
+                dagre.layout(graph);
+            } catch (err) {
+                console.error("Layout Error", err);
+            }
+
+            let width = 0;
+            let height = 0;
+            children.forEach(child => {
+                const laidOut = graph.node(child.id);
+                if (!laidOut) return;
+                positions.set(child.id, {
+                    x: inset.x + laidOut.x - laidOut.width / 2,
+                    y: inset.y + laidOut.y - laidOut.height / 2,
+                });
+                width = Math.max(width, laidOut.x + laidOut.width / 2);
+                height = Math.max(height, laidOut.y + laidOut.height / 2);
+            });
+
+            return { width: Math.max(220, width + padding * 2), height: height + headerSpace + padding * 2 };
+        };
+
+        layoutContainer(undefined);
+
+        const finalNodes = nodes.map(node => {
+            const position = positions.get(node.id) ?? node.position;
+            const size = sizes.get(node.id);
+            return node.type === 'groupNode' && size
+                ? { ...node, position, style: { ...node.style, width: size.width, height: size.height } }
+                : { ...node, position };
+        });
+
+        return { nodes: finalNodes, edges };
+    }
+
     private applyDagreLayout(nodes: Node[], edges: Edge[]) {
         const isVertical = this.layoutMode === 'vertical-grouped';
         const dagreGraph = new dagre.graphlib.Graph({ compound: false });
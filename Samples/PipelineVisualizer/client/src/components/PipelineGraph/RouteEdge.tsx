@@ -0,0 +1,53 @@
+import { memo } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getSmoothStepPath } from 'reactflow';
+import { clsx } from 'clsx';
+
+export type RouteState = 'pending' | 'taken' | 'untaken';
+
+interface RouteEdgeData {
+    router: string;
+    route: string;
+    state?: RouteState;
+    reason?: string;
+}
+
+/**
+ * Edge from a router step to one of its routes. The route label carries the
+ * routing reason as a tooltip once the router has decided.
+ */
+export const RouteEdge = memo(({
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+    markerEnd,
+    style,
+    data,
+}: EdgeProps<RouteEdgeData>) => {
+    const [path, labelX, labelY] = getSmoothStepPath({ sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition });
+    const state = data?.state ?? 'pending';
+
+    return (
+        <>
+            <BaseEdge path={path} markerEnd={markerEnd} style={style} />
+            <EdgeLabelRenderer>
+                <div
+                    className={clsx(
+                        'absolute px-1.5 py-0.5 rounded border text-[10px] font-medium bg-white pointer-events-auto',
+                        state === 'taken' && 'border-green-400 text-green-700 shadow-sm',
+                        state === 'untaken' && 'border-slate-200 text-slate-400 opacity-50',
+                        state === 'pending' && 'border-amber-300 text-amber-700'
+                    )}
+                    style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+                    title={state === 'taken' && data?.reason ? data.reason : undefined}
+                >
+                    {data?.route}
+                </div>
+            </EdgeLabelRenderer>
+        </>
+    );
+});
+
+RouteEdge.displayName = 'RouteEdge';
@@ -0,0 +1,46 @@
+import { memo } from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, Position } from 'reactflow';
+import { clsx } from 'clsx';
+import { RotateCcw } from 'lucide-react';
+
+interface SelfLoopEdgeData {
+    attempts: number;
+    retrying: boolean;
+}
+
+/**
+ * Loop from a step back to itself for validation retries. The loop bends over the
+ * node in horizontal layouts and beside it in vertical ones.
+ */
+export const SelfLoopEdge = memo(({ sourceX, sourceY, targetX, targetY, sourcePosition, markerEnd, style, data }: EdgeProps<SelfLoopEdgeData>) => {
+    const vertical = sourcePosition === Position.Bottom;
+
+    const path = vertical
+        ? `M ${sourceX} ${sourceY} C ${sourceX + 120} ${sourceY + 40}, ${targetX + 120} ${targetY - 40}, ${targetX} ${targetY}`
+        : `M ${sourceX} ${sourceY} C ${sourceX + 50} ${sourceY - 80}, ${targetX - 50} ${targetY - 80}, ${targetX} ${targetY}`;
+
+    const labelX = vertical ? (sourceX + targetX) / 2 + 90 : (sourceX + targetX) / 2;
+    const labelY = vertical ? (sourceY + targetY) / 2 : Math.min(sourceY, targetY) - 60;
+
+    return (
+        <>
+            <BaseEdge path={path} markerEnd={markerEnd} style={style} />
+            <EdgeLabelRenderer>
+                <div
+                    // Re-mounted on every attempt so the pulse restarts with each retry
+                    key={data?.attempts}
+                    className={clsx(
+                        'absolute px-1.5 py-0.5 rounded-full border text-[10px] font-semibold flex items-center gap-0.5 bg-white',
+                        data?.retrying ? 'border-amber-400 text-amber-700 animate-pulse' : 'border-slate-300 text-slate-500'
+                    )}
+                    style={{ transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)` }}
+                >
+                    <RotateCcw className="w-2.5 h-2.5" />
+                    {data?.attempts}
+                </div>
+            </EdgeLabelRenderer>
+        </>
+    );
+});
+
+SelfLoopEdge.displayName = 'SelfLoopEdge';
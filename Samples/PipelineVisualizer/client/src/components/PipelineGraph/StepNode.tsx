@@ -16,8 +16,14 @@ import {
     GitFork,
     Box,
     Columns,
-    PenTool
+    PenTool,
+    Wrench,
+    Tag,
+    RotateCcw,
+    OctagonX
 } from 'lucide-react';
+import { StepDiff } from '../../types';
+import { DiffTooltip, diffStyles } from './DiffTooltip';
 
 interface StepNodeData {
     label: string;
@@ -34,7 +40,17 @@ interface StepNodeData {
     isActive: boolean;
     isCompleted: boolean;
     hasError?: boolean;
-    layout?: 'horizontal-compact' | 'vertical-grouped';
+    /** Was running when the run was cancelled. */
+    isInterrupted?: boolean;
+    toolCalls?: { total: number; failed: number };
+    openTag?: string;
+    validation?: { attempts: number; failures: number; retrying: boolean; lastError?: string };
+    isSelected?: boolean;
+    /** Under a route the router did not take in this run. */
+    isDimmed?: boolean;
+    /** Set when the graph shows a merged definition diff. */
+    diff?: StepDiff;
+    layout?: 'horizontal-compact' | 'vertical-grouped' | 'nested';
 }
 
 // Icon mapping
@@ -79,7 +95,7 @@ const stepColors: Record<string, string> = {
  */
 export const StepNode = memo(({ data }: NodeProps<StepNodeData>) => {
     const baseType = data.stepType.split('`')[0];
-    const isVertical = data.layout === 'vertical-grouped';
+    const isVertical = data.layout === 'vertical-grouped' || data.layout === 'nested';
     const targetHandlePosition = isVertical ? Position.Top : Position.Left;
     const sourceHandlePosition = isVertical ? Position.Bottom : Position.Right;
 
@@ -93,37 +109,84 @@ export const StepNode = memo(({ data }: NodeProps<StepNodeData>) => {
     const borderColor = data.stepTypeMetadata?.borderColor || '#94A3B8';
     const backgroundColor = data.stepTypeMetadata?.backgroundColor || '#F8FAFC';
     const fallbackClass = stepColors[baseType] || 'border-slate-400 bg-slate-50';
+    const isRetrying = !!data.validation?.retrying && !data.hasError;
 
 
     return (
         <div
             className={clsx(
-                'px-3 py-2 rounded-xl border-2 min-w-[80px] shadow-sm transition-all duration-300',
+                'relative px-3 py-2 rounded-xl border-2 min-w-[80px] shadow-sm transition-all duration-300',
                 {
-                    'ring-4 ring-blue-400 ring-opacity-50 scale-105': data.isActive,
+                    'ring-4 ring-blue-400 ring-opacity-50 scale-105': data.isActive && !isRetrying,
+                    'ring-4 ring-amber-400 ring-opacity-60 scale-105 !border-amber-500': isRetrying,
+                    'ring-2 ring-offset-2 ring-slate-700': data.isSelected && !data.isActive,
+                    'cursor-pointer': data.stepType !== 'Input',
                     'border-red-500 bg-red-50': data.hasError && !useInlineStyles,
+                    '!border-orange-400 !bg-orange-50 border-dashed': data.isInterrupted && !data.hasError,
                     'border-green-500 bg-green-50': data.isCompleted && !data.hasError && !useInlineStyles,
-                    'opacity-60': !data.isActive && !data.isCompleted && !data.hasError,
+                    'opacity-60': !data.isActive && !data.isCompleted && !data.hasError && !data.isInterrupted && !data.isDimmed && !data.diff,
+                    'opacity-25 grayscale': data.isDimmed,
+                    'group': data.diff,
                 },
-                !useInlineStyles && fallbackClass
+                !useInlineStyles && fallbackClass,
+                data.diff && diffStyles[data.diff.kind].node
             )}
-            style={useInlineStyles ? {
+            style={useInlineStyles && !data.diff && !data.isInterrupted ? {
                 borderColor: data.hasError ? '#EF4444' : (data.isCompleted ? '#22C55E' : borderColor),
                 backgroundColor: data.hasError ? '#FEF2F2' : (data.isCompleted ? '#F0FDF4' : backgroundColor),
             } : undefined}
         >
             <Handle type="target" position={targetHandlePosition} className="!bg-slate-400" />
 
+            {data.diff && <DiffTooltip diff={data.diff} />}
+
+            {data.validation && data.validation.attempts > 1 && (
+                <div
+                    className={clsx(
+                        'absolute -top-2 -left-2 px-1.5 py-0.5 rounded-full border shadow-sm text-[10px] font-semibold flex items-center gap-0.5',
+                        isRetrying
+                            ? 'bg-amber-100 border-amber-300 text-amber-700'
+                            : 'bg-slate-50 border-slate-200 text-slate-600'
+                    )}
+                    title={data.validation.lastError
+                        ? `Attempt ${data.validation.attempts}: ${data.validation.lastError}`
+                        : `Attempt ${data.validation.attempts}`}
+                >
+                    <RotateCcw className={clsx('w-2.5 h-2.5', isRetrying && 'animate-spin')} />
+                    #{data.validation.attempts}
+                </div>
+            )}
+
+            {data.toolCalls && (
+                <div
+                    className={clsx(
+                        'absolute -top-2 -right-2 px-1.5 py-0.5 rounded-full border shadow-sm text-[10px] font-semibold flex items-center gap-0.5',
+                        data.toolCalls.failed > 0
+                            ? 'bg-red-100 border-red-300 text-red-700'
+                            : 'bg-orange-50 border-orange-200 text-orange-700'
+                    )}
+                    title={`${data.toolCalls.total} tool calls, ${data.toolCalls.failed} failed`}
+                >
+                    <Wrench className="w-2.5 h-2.5" />
+                    {data.toolCalls.total}
+                    {data.toolCalls.failed > 0 && <span>/{data.toolCalls.failed}✗</span>}
+                </div>
+            )}
+
             <div className="flex items-center gap-2">
                 <div className={clsx(
                     'w-8 h-8 rounded-lg flex items-center justify-center',
                     data.hasError ? 'bg-red-500 text-white' :
+                        data.isInterrupted ? 'bg-orange-400 text-white' :
+                        isRetrying ? 'bg-amber-500 text-white' :
                         data.isActive ? 'bg-blue-500 text-white' :
                             data.isCompleted ? 'bg-green-500 text-white' :
                                 'bg-white text-slate-600'
                 )}>
                     {data.hasError ? (
                         <XCircle className="w-4 h-4" />
+                    ) : data.isInterrupted ? (
+                        <OctagonX className="w-4 h-4" />
                     ) : data.isActive ? (
                         <Loader2 className="w-4 h-4 animate-spin" />
                     ) : data.isCompleted ? (
@@ -137,11 +200,20 @@ export const StepNode = memo(({ data }: NodeProps<StepNodeData>) => {
                     <div className="text-sm font-semibold text-slate-800">
                         {data.label}
                     </div>
+                    {data.isInterrupted && !data.hasError && (
+                        <div className="text-[10px] font-medium text-orange-600 mt-0.5">Interrupted</div>
+                    )}
                     {data.routeLabel && (
                         <div className="text-xs text-slate-500 mt-0.5">
                             {data.routeLabel}
                         </div>
                     )}
+                    {data.openTag && (
+                        <div className="flex items-center gap-1 text-[10px] font-mono text-teal-600 mt-0.5">
+                            <Tag className="w-2.5 h-2.5 animate-pulse" />
+                            &lt;{data.openTag}&gt;
+                        </div>
+                    )}
                 </div>
             </div>
 
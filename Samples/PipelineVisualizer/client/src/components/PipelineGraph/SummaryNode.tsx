@@ -0,0 +1,103 @@
+import { memo } from 'react';
+import { Handle, Position, NodeProps } from 'reactflow';
+import { clsx } from 'clsx';
+import { Folder, Layers, GitBranch, Loader2, CheckCircle, XCircle, Maximize2 } from 'lucide-react';
+import { FoldSummary, StepDiff } from '../../types';
+import { DiffTooltip, diffStyles } from './DiffTooltip';
+
+interface SummaryNodeData {
+    label: string;
+    stepType: string;
+    /** Set when the collapsed step starts a route. */
+    routeLabel?: string;
+    summary?: FoldSummary;
+    isSelected?: boolean;
+    isDimmed?: boolean;
+    diff?: StepDiff;
+    onToggleFold?: (stepName: string) => void;
+    layout?: 'horizontal-compact' | 'vertical-grouped' | 'nested';
+}
+
+/**
+ * Custom node component for a collapsed group, parallel step or route.
+ * Shows how many of the steps inside are running, done and failed.
+ */
+export const SummaryNode = memo(({ id, data }: NodeProps<SummaryNodeData>) => {
+    const isVertical = data.layout === 'vertical-grouped' || data.layout === 'nested';
+    const targetHandlePosition = isVertical ? Position.Top : Position.Left;
+    const sourceHandlePosition = isVertical ? Position.Bottom : Position.Right;
+    const summary = data.summary ?? { steps: 0, running: 0, done: 0, failed: 0 };
+    const isComplete = summary.steps > 0 && summary.done === summary.steps;
+
+    const icon = data.stepType.startsWith('ParallelStep') ? <Layers className="w-4 h-4" />
+        : data.stepType.includes('Router') ? <GitBranch className="w-4 h-4" />
+            : <Folder className="w-4 h-4" />;
+
+    return (
+        <div
+            className={clsx(
+                'relative px-3 py-2 rounded-xl border-2 border-double min-w-[120px] shadow-md cursor-pointer transition-all duration-300',
+                {
+                    'border-red-500 bg-red-50': summary.failed > 0,
+                    'border-blue-400 bg-blue-50 ring-4 ring-blue-400 ring-opacity-30': summary.running > 0 && summary.failed === 0,
+                    'border-green-500 bg-green-50': isComplete,
+                    'border-slate-400 bg-slate-50': summary.failed === 0 && summary.running === 0 && !isComplete && !data.diff,
+                    'ring-2 ring-offset-2 ring-slate-700': data.isSelected,
+                    'opacity-25 grayscale': data.isDimmed,
+                    'group': data.diff,
+                },
+                data.diff && diffStyles[data.diff.kind].node
+            )}
+        >
+            <Handle type="target" position={targetHandlePosition} className="!bg-slate-400" />
+
+            {data.diff && <DiffTooltip diff={data.diff} />}
+
+            <div className="flex items-center gap-2">
+                <div className="w-8 h-8 rounded-lg flex items-center justify-center bg-white text-slate-600">
+                    {icon}
+                </div>
+
+                <div className="flex-1">
+                    <div className="text-sm font-semibold text-slate-800">{data.label}</div>
+                    {data.routeLabel && (
+                        <div className="text-xs text-slate-500 mt-0.5">{data.routeLabel}</div>
+                    )}
+                    <div className="flex items-center gap-2 text-[10px] font-medium mt-0.5">
+                        <span className="text-slate-500">{summary.steps} steps</span>
+                        {summary.running > 0 && (
+                            <span className="flex items-center gap-0.5 text-blue-600" title="Running">
+                                <Loader2 className="w-2.5 h-2.5 animate-spin" />{summary.running}
+                            </span>
+                        )}
+                        {summary.done > 0 && (
+                            <span className="flex items-center gap-0.5 text-green-600" title="Done">
+                                <CheckCircle className="w-2.5 h-2.5" />{summary.done}
+                            </span>
+                        )}
+                        {summary.failed > 0 && (
+                            <span className="flex items-center gap-0.5 text-red-600" title="Failed">
+                                <XCircle className="w-2.5 h-2.5" />{summary.failed}
+                            </span>
+                        )}
+                    </div>
+                </div>
+
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        data.onToggleFold?.(id);
+                    }}
+                    className="p-1 rounded hover:bg-white/80 text-slate-500"
+                    title="Expand"
+                >
+                    <Maximize2 className="w-3.5 h-3.5" />
+                </button>
+            </div>
+
+            <Handle type="source" position={sourceHandlePosition} className="!bg-slate-400" />
+        </div>
+    );
+});
+
+SummaryNode.displayName = 'SummaryNode';
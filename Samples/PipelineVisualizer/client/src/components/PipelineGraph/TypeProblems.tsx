@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { CircleAlert, ChevronDown, ChevronRight } from 'lucide-react';
+import { TypeMismatch } from '../../types';
+
+interface TypeProblemsProps {
+    mismatches: TypeMismatch[];
+    onSelect?: (stepName: string) => void;
+}
+
+/**
+ * Type-flow problems of the displayed definition, shown under the graph.
+ */
+export function TypeProblems({ mismatches, onSelect }: TypeProblemsProps) {
+    const [isExpanded, setIsExpanded] = useState(true);
+
+    return (
+        <div className="border-t border-red-200 bg-red-50 text-xs">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full px-3 py-1.5 flex items-center gap-1.5 text-red-700 font-medium"
+            >
+                {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                <CircleAlert className="w-3.5 h-3.5" />
+                {mismatches.length} type {mismatches.length === 1 ? 'mismatch' : 'mismatches'}
+            </button>
+            {isExpanded && (
+                <div className="max-h-28 overflow-y-auto px-3 pb-2 space-y-0.5">
+                    {mismatches.map((mismatch, index) => (
+                        <button
+                            key={index}
+                            onClick={() => onSelect?.(mismatch.target)}
+                            className="w-full text-left px-2 py-1 rounded hover:bg-red-100 text-red-800"
+                        >
+                            <span className="font-medium">{mismatch.sources[0]}</span>
+                            {' → '}
+                            <span className="font-medium">{mismatch.target}</span>
+                            <span className="ml-2 font-mono text-red-600">
+                                {mismatch.outputType} ⇏ {mismatch.inputType}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,3 +1,4 @@
 export { PipelineGraph } from './PipelineGraph';
 export { StepNode } from './StepNode';
 export { GroupNode } from './GroupNode';
+export { SummaryNode } from './SummaryNode';
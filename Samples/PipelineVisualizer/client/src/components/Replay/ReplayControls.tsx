@@ -0,0 +1,82 @@
+import { Play, Pause, X, History } from 'lucide-react';
+import { formatDuration } from '../../utils/timeSpan';
+
+interface ReplayControlsProps {
+    label: string;
+    playing: boolean;
+    speed: number;
+    position: number;
+    duration: number;
+    onPlay: () => void;
+    onPause: () => void;
+    onSeek: (position: number) => void;
+    onSpeedChange: (speed: number) => void;
+    onClose: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4, 8];
+
+/**
+ * Playback bar for a loaded session recording: play/pause, speed and a time scrubber.
+ */
+export function ReplayControls({
+    label,
+    playing,
+    speed,
+    position,
+    duration,
+    onPlay,
+    onPause,
+    onSeek,
+    onSpeedChange,
+    onClose
+}: ReplayControlsProps) {
+    return (
+        <div className="h-11 bg-amber-50 border-b border-amber-200 px-6 flex items-center gap-4 text-sm">
+            <div className="flex items-center gap-2 text-amber-700 font-medium shrink-0">
+                <History className="w-4 h-4" />
+                <span className="truncate max-w-[240px]" title={label}>Replay: {label}</span>
+            </div>
+
+            <button
+                onClick={playing ? onPause : onPlay}
+                className="w-8 h-8 rounded-full bg-amber-500 hover:bg-amber-600 text-white flex items-center justify-center shrink-0"
+                title={playing ? 'Pause' : 'Play'}
+            >
+                {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+
+            <input
+                type="range"
+                min={0}
+                max={duration}
+                step={Math.max(duration / 1000, 1)}
+                value={position}
+                onChange={(e) => onSeek(Number(e.target.value))}
+                className="flex-1 accent-amber-500"
+            />
+
+            <span className="font-mono text-xs text-amber-700 shrink-0 w-28 text-right">
+                {formatDuration(position)} / {formatDuration(duration)}
+            </span>
+
+            <select
+                value={speed}
+                onChange={(e) => onSpeedChange(Number(e.target.value))}
+                className="bg-white border border-amber-200 rounded-md px-2 py-1 text-xs text-amber-700"
+            >
+                {SPEEDS.map(value => (
+                    <option key={value} value={value}>{value}×</option>
+                ))}
+            </select>
+
+            <button
+                onClick={onClose}
+                className="p-1.5 rounded-md text-amber-700 hover:bg-amber-100 shrink-0"
+                title="Close replay"
+            >
+                <X className="w-4 h-4" />
+            </button>
+        </div>
+    );
+}
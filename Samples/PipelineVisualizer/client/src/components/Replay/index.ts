@@ -0,0 +1 @@
+export { ReplayControls } from './ReplayControls';
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { GitCompareArrows, X, ArrowRight, ChevronDown, ChevronRight } from 'lucide-react';
+import { PipelineDefinition, PipelineRun, RunComparison, SseEvent, StepChangeKind, StepComparison, StepRunStats } from '../../types';
+import { compareRuns, formatDelta, runPipelineName } from '../../services/runComparison';
+import { PipelineGraph } from '../PipelineGraph';
+import { diffStyles } from '../PipelineGraph/DiffTooltip';
+
+interface RunComparisonViewProps {
+    pipeline: PipelineDefinition | null;
+    runs: PipelineRun[];
+    /** All events of a run, including those spilled from memory. */
+    loadRunEvents: (run: PipelineRun) => Promise<SseEvent[]>;
+    onClose: () => void;
+}
+
+/**
+ * Compares two finished runs of the same pipeline: one graph overlays both runs,
+ * and a table lists per-step duration and token deltas, routes and output diffs.
+ */
+export function RunComparisonView({ pipeline, runs, loadRunEvents, onClose }: RunComparisonViewProps) {
+    const finished = useMemo(() => runs.filter(run => run.completedAt), [runs]);
+    const [leftId, setLeftId] = useState<string | null>(() => finished[finished.length - 2]?.correlationId ?? null);
+    const [rightId, setRightId] = useState<string | null>(() => finished[finished.length - 1]?.correlationId ?? null);
+    const [comparison, setComparison] = useState<RunComparison | null>(null);
+    const [error, setError] = useState<string>();
+    const [selectedStep, setSelectedStep] = useState<string | null>(null);
+
+    const left = finished.find(run => run.correlationId === leftId);
+    // The right run only offers runs of the left run's pipeline
+    const leftPipeline = left && runPipelineName(left);
+    const candidates = finished.filter(run => run !== left && (!leftPipeline || runPipelineName(run) === leftPipeline));
+    const right = candidates.find(run => run.correlationId === rightId);
+
+    useEffect(() => {
+        let cancelled = false;
+        setError(undefined);
+        if (!pipeline || !left || !right) {
+            setComparison(null);
+            return;
+        }
+
+        Promise.all([loadRunEvents(left), loadRunEvents(right)])
+            .then(([leftEvents, rightEvents]) => {
+                if (cancelled) return;
+                setComparison(compareRuns(pipeline, { run: left, events: leftEvents }, { run: right, events: rightEvents }));
+            })
+            .catch(err => {
+                if (cancelled) return;
+                setError(err instanceof Error ? err.message : 'Failed to load run events');
+                setComparison(null);
+            });
+
+        return () => { cancelled = true; };
+    }, [pipeline, left, right, loadRunEvents]);
+
+    const overlay = useMemo(() => {
+        const steps = comparison?.steps ?? [];
+        return {
+            completedSteps: steps.filter(step => step.left.status === 'completed' && step.right.status === 'completed').map(step => step.stepName),
+            failedSteps: steps.filter(step => step.left.status === 'failed' || step.right.status === 'failed').map(step => step.stepName),
+        };
+    }, [comparison]);
+
+    const ranSteps = comparison?.steps.filter(step => step.left.status !== 'skipped' || step.right.status !== 'skipped') ?? [];
+    const counts = comparison && (['added', 'removed', 'modified'] as const).map(kind => ({
+        kind,
+        count: Object.values(comparison.diff).filter(diff => diff.kind === kind).length,
+    }));
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-3">
+                <GitCompareArrows className="w-4 h-4 text-blue-500" />
+                <span className="text-sm font-medium text-gray-700">Compare Runs</span>
+                <RunPicker runs={finished} value={leftId} onChange={setLeftId} />
+                <ArrowRight className="w-4 h-4 text-gray-400" />
+                <RunPicker runs={candidates} value={rightId} onChange={setRightId} />
+                {error && <span className="text-xs text-red-600">{error}</span>}
+
+                {counts && (
+                    <div className="ml-auto flex gap-2 text-xs">
+                        {counts.map(({ kind, count }) => (
+                            <span key={kind} className={clsx('px-2 py-0.5 rounded-full border', diffStyles[kind].badge)}>
+                                {diffStyles[kind].symbol} {count} {kind === 'added' ? 'only right' : kind === 'removed' ? 'only left' : 'differ'}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                <button onClick={onClose} className={clsx('p-1 rounded text-gray-500 hover:bg-gray-100', !counts && 'ml-auto')} title="Close">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            {finished.length < 2 ? (
+                <div className="flex-1 flex items-center justify-center text-sm text-slate-400">
+                    Two finished runs are needed for a comparison
+                </div>
+            ) : (
+                <>
+                    <div className="flex-1 min-h-0">
+                        <PipelineGraph
+                            pipeline={comparison ? pipeline : null}
+                            activeSteps={[]}
+                            completedSteps={overlay.completedSteps}
+                            failedSteps={overlay.failedSteps}
+                            routing={comparison?.sharedRouting}
+                            diff={comparison?.diff}
+                            selectedStep={selectedStep}
+                            onStepSelect={setSelectedStep}
+                        />
+                    </div>
+                    <div className="h-2/5 border-t overflow-y-auto">
+                        <table className="w-full text-xs">
+                            <thead className="sticky top-0 bg-gray-50 text-gray-500 text-left">
+                                <tr>
+                                    <th className="px-3 py-1.5 font-medium">Step</th>
+                                    <th className="px-3 py-1.5 font-medium">Status</th>
+                                    <th className="px-3 py-1.5 font-medium">Duration</th>
+                                    <th className="px-3 py-1.5 font-medium">Tokens</th>
+                                    <th className="px-3 py-1.5 font-medium">Route</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {ranSteps.map(step => (
+                                    <StepRow
+                                        key={step.stepName}
+                                        step={step}
+                                        kind={comparison!.diff[step.stepName]?.kind ?? 'unchanged'}
+                                        expanded={step.stepName === selectedStep}
+                                        onToggle={() => setSelectedStep(step.stepName === selectedStep ? null : step.stepName)}
+                                    />
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
+
+function RunPicker({ runs, value, onChange }: { runs: PipelineRun[]; value: string | null; onChange: (correlationId: string | null) => void }) {
+    return (
+        <select
+            value={value ?? ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            className="px-2 py-1 rounded border border-slate-300 bg-white text-xs"
+        >
+            <option value="">Select a run…</option>
+            {[...runs].reverse().map(run => (
+                <option key={run.correlationId} value={run.correlationId}>
+                    {new Date(run.startedAt).toLocaleTimeString()} · {run.correlationId.substring(0, 8)} · {runPipelineName(run) ?? 'unknown pipeline'}
+                </option>
+            ))}
+        </select>
+    );
+}
+
+interface StepRowProps {
+    step: StepComparison;
+    kind: StepChangeKind;
+    expanded: boolean;
+    onToggle: () => void;
+}
+
+function StepRow({ step, kind, expanded, onToggle }: StepRowProps) {
+    const { left, right } = step;
+    const hasOutput = left.output !== undefined || right.output !== undefined;
+
+    return (
+        <>
+            <tr onClick={onToggle} className={clsx('border-t cursor-pointer hover:bg-slate-50', expanded && 'bg-slate-50')}>
+                <td className="px-3 py-1.5 font-medium text-slate-800">
+                    <span className="inline-flex items-center gap-1">
+                        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        {step.stepName}
+                        {kind !== 'unchanged' && (
+                            <span className={clsx('ml-1 px-1.5 rounded-full border text-[10px]', diffStyles[kind].badge)}>
+                                {diffStyles[kind].symbol}
+                            </span>
+                        )}
+                    </span>
+                </td>
+                <td className="px-3 py-1.5"><Pair left={left.status} right={right.status} /></td>
+                <td className="px-3 py-1.5">
+                    <Pair left={formatDuration(left)} right={formatDuration(right)} />
+                    <Delta text={formatDelta(left.durationMs, right.durationMs, 'ms')} />
+                </td>
+                <td className="px-3 py-1.5">
+                    <Pair left={String(left.tokens)} right={String(right.tokens)} />
+                    <Delta text={left.tokens !== right.tokens ? formatDelta(left.tokens, right.tokens, 'tokens') : ''} />
+                </td>
+                <td className="px-3 py-1.5">
+                    {(left.route || right.route) && <Pair left={left.route ?? '—'} right={right.route ?? '—'} />}
+                </td>
+            </tr>
+            {expanded && (
+                <tr>
+                    <td colSpan={5} className="px-3 pb-2">
+                        {hasOutput && !step.outputDiff ? (
+                            <div className="text-slate-400 italic">Outputs differ; too large to compare line by line</div>
+                        ) : hasOutput ? (
+                            <pre className="max-h-64 overflow-auto rounded border bg-slate-50 p-2 font-mono text-[11px] whitespace-pre-wrap">
+                                {step.outputDiff?.map((line, index) => (
+                                    <div
+                                        key={index}
+                                        className={clsx(
+                                            line.kind === 'added' && 'bg-green-100 text-green-800',
+                                            line.kind === 'removed' && 'bg-red-100 text-red-800'
+                                        )}
+                                    >
+                                        {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}{line.text}
+                                    </div>
+                                ))}
+                            </pre>
+                        ) : (
+                            <div className="text-slate-400 italic">No output in the final context snapshots</div>
+                        )}
+                    </td>
+                </tr>
+            )}
+        </>
+    );
+}
+
+function Pair({ left, right }: { left: string; right: string }) {
+    return (
+        <span className={clsx(left !== right && 'font-medium text-amber-700')}>
+            {left === right ? left : `${left} → ${right}`}
+        </span>
+    );
+}
+
+function Delta({ text }: { text: string }) {
+    if (!text) return null;
+    return (
+        <span className={clsx('ml-1.5', text.startsWith('+') ? 'text-red-600' : text.startsWith('-') ? 'text-green-600' : 'text-slate-400')}>
+            {text}
+        </span>
+    );
+}
+
+function formatDuration(stats: StepRunStats): string {
+    if (stats.durationMs === undefined) return '—';
+    return stats.durationMs < 1000 ? `${Math.round(stats.durationMs)}ms` : `${(stats.durationMs / 1000).toFixed(1)}s`;
+}
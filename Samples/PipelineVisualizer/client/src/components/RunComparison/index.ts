@@ -0,0 +1 @@
+export { RunComparisonView } from './RunComparisonView';
@@ -0,0 +1,179 @@
+import { useMemo } from 'react';
+import { X, Signpost, MessageSquare, ScrollText } from 'lucide-react';
+import { ContextSnapshot, PipelineDefinition, PipelineEvent, SseEvent, TagSpan, ToolCall } from '../../types';
+import { baseTypeName, findStep } from '../../utils/pipelineSteps';
+import { collectValidations } from '../../services/validation';
+import { selectStepLlmOutput } from '../../services/runRegistry';
+import { StepToolCalls } from '../ToolCalls';
+import { StepTags } from '../Tags';
+import { StepValidations } from '../Validation';
+import { JsonTree } from '../ContextViewer';
+
+interface StepDetailDrawerProps {
+    pipeline: PipelineDefinition | null;
+    stepName: string;
+    events: SseEvent[];
+    toolCalls: ToolCall[];
+    tagSpans: Record<string, TagSpan[]>;
+    context?: ContextSnapshot;
+    onClose: () => void;
+}
+
+/** Config keys shown first, in this order, when present. */
+const KEY_CONFIG = ['provider', 'model', 'temperature', 'maxTokens'];
+
+/**
+ * Everything known about one step: its definition and what it did in the displayed run.
+ */
+export function StepDetailDrawer({ pipeline, stepName, events, toolCalls, tagSpans, context, onClose }: StepDetailDrawerProps) {
+    const step = pipeline ? findStep(pipeline.pipeline, stepName) : undefined;
+    const typeInfo = step ? pipeline?.stepTypes?.[baseTypeName(step.type)] : undefined;
+
+    const stepEvents = useMemo(
+        () => events.filter((event): event is PipelineEvent => event.type === 'pipeline' && event.stepName === stepName),
+        [events, stepName]
+    );
+    const validations = useMemo(() => collectValidations(stepEvents)[stepName] ?? [], [stepEvents, stepName]);
+    const routings = stepEvents.filter(event => event.eventType === 'step.routing');
+    const llmOutput = useMemo(() => selectStepLlmOutput(stepEvents, stepName), [stepEvents, stepName]);
+    const stepToolCalls = toolCalls.filter(call => call.stepName === stepName);
+    const stepTagSpans = tagSpans[stepName] ?? [];
+    const result = context?.stepResults[stepName];
+
+    const config = Object.entries(step?.config ?? {}).sort(([a], [b]) => configOrder(a) - configOrder(b));
+
+    return (
+        <div className="h-full flex flex-col bg-white border-l border-slate-200 shadow-xl overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                    <div className="text-sm font-semibold text-gray-800 truncate">{stepName}</div>
+                    {step && <div className="text-xs text-gray-500 font-mono truncate">{baseTypeName(step.type)}</div>}
+                </div>
+                <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+                    <X className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 space-y-4 text-xs">
+                {typeInfo && (
+                    <p className="text-gray-600">{typeInfo.description}</p>
+                )}
+
+                <Section title="Definition">
+                    {step ? (
+                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+                            <Field label="Type" value={step.type} />
+                            <Field label="Input" value={step.inputType} />
+                            <Field label="Output" value={step.outputType} />
+                            {step.defaultRoute && <Field label="Default route" value={step.defaultRoute} />}
+                            {config.map(([key, value]) => (
+                                <Field key={key} label={key} value={typeof value === 'string' ? value : JSON.stringify(value)} />
+                            ))}
+                        </dl>
+                    ) : (
+                        <Empty text="Not part of the loaded pipeline definition" />
+                    )}
+                </Section>
+
+                {validations.length > 0 && (
+                    <StepValidations title="Validation" attempts={validations} />
+                )}
+
+                {routings.length > 0 && (
+                    <Section title="Routing">
+                        <div className="space-y-1">
+                            {routings.map((event, index) => (
+                                <div key={index} className="flex items-start gap-2 px-2 py-1 rounded bg-yellow-50">
+                                    <Signpost className="w-3 h-3 mt-0.5 text-yellow-600 shrink-0" />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="font-medium text-gray-700">→ {event.data.selectedRoute}</div>
+                                        {event.data.routingReason && (
+                                            <div className="text-gray-500 break-words">{event.data.routingReason}</div>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </Section>
+                )}
+
+                {llmOutput && (
+                    <Section title="LLM Output">
+                        <div className="flex items-center gap-2 mb-1 text-gray-500">
+                            <MessageSquare className="w-3 h-3 text-purple-500" />
+                            {llmOutput.model ?? 'unknown model'}
+                            {llmOutput.tokens > 0 && <span className="ml-auto">{llmOutput.tokens.toLocaleString()} tokens</span>}
+                        </div>
+                        {llmOutput.reasoning && (
+                            <details className="mb-1">
+                                <summary className="cursor-pointer text-gray-500">Reasoning</summary>
+                                <pre className="mt-1 p-2 rounded bg-gray-50 whitespace-pre-wrap break-words text-gray-600">{llmOutput.reasoning}</pre>
+                            </details>
+                        )}
+                        <pre className="p-2 rounded bg-purple-50 whitespace-pre-wrap break-words text-gray-800 max-h-64 overflow-y-auto">
+                            {llmOutput.content}
+                        </pre>
+                    </Section>
+                )}
+
+                {stepToolCalls.length > 0 && (
+                    <StepToolCalls title="Tool Calls" calls={stepToolCalls} />
+                )}
+
+                {stepTagSpans.length > 0 && (
+                    <StepTags title="Streaming Tags" spans={stepTagSpans} />
+                )}
+
+                <Section title="Result">
+                    {result !== undefined
+                        ? <JsonTree data={result} rootPath={`stepResults.${stepName}`} />
+                        : <Empty text="No result in the latest context snapshot" />}
+                </Section>
+
+                <Section title={`Events (${stepEvents.length})`}>
+                    {stepEvents.length > 0 ? (
+                        <div className="font-mono space-y-0.5">
+                            {stepEvents.map((event, index) => (
+                                <div key={index} className="flex items-center gap-2 text-gray-600">
+                                    <ScrollText className="w-3 h-3 text-gray-400 shrink-0" />
+                                    <span className="text-gray-400">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                                    <span>{event.eventType}</span>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <Empty text="The step has not run" />
+                    )}
+                </Section>
+            </div>
+        </div>
+    );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+    return (
+        <div>
+            <div className="text-xs font-semibold text-amber-600 mb-1">{title}</div>
+            {children}
+        </div>
+    );
+}
+
+function Field({ label, value }: { label: string; value?: string }) {
+    return (
+        <>
+            <dt className="text-gray-500">{label}</dt>
+            <dd className="font-mono text-gray-800 break-all">{value ?? '—'}</dd>
+        </>
+    );
+}
+
+function Empty({ text }: { text: string }) {
+    return <div className="text-gray-400 italic">{text}</div>;
+}
+
+function configOrder(key: string): number {
+    const index = KEY_CONFIG.indexOf(key);
+    return index < 0 ? KEY_CONFIG.length : index;
+}
+
@@ -0,0 +1 @@
+export { StepDetailDrawer } from './StepDetailDrawer';
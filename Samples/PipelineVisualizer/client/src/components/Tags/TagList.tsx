@@ -0,0 +1,104 @@
+import { clsx } from 'clsx';
+import { Tag, CheckCircle, XCircle, Loader2, CircleDashed } from 'lucide-react';
+import { TagSpan } from '../../types';
+import { formatDuration } from '../../utils/timeSpan';
+
+interface TagListProps {
+    tagSpans: Record<string, TagSpan[]>;
+}
+
+/**
+ * Streaming tags of a run, grouped by step and nested as they were opened.
+ */
+export function TagList({ tagSpans }: TagListProps) {
+    const steps = Object.entries(tagSpans);
+
+    if (steps.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center bg-gray-50 text-gray-400 text-sm">
+                No streaming tags yet
+            </div>
+        );
+    }
+
+    return (
+        <div className="h-full flex flex-col bg-white overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <Tag className="w-4 h-4 text-teal-500" />
+                <span className="text-sm font-medium text-gray-700">Streaming Tags</span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-3">
+                {steps.map(([stepName, spans]) => (
+                    <StepTags key={stepName} title={stepName} spans={spans} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Tag tree of a single step.
+ */
+export function StepTags({ title, spans }: { title: string; spans: TagSpan[] }) {
+    return (
+        <div>
+            <div className="text-xs font-semibold text-amber-600 mb-1">{title}</div>
+            <div className="space-y-0.5">
+                {spans.map(span => (
+                    <TagSpanItem key={span.id} span={span} depth={0} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function TagSpanItem({ span, depth }: { span: TagSpan; depth: number }) {
+    const isOpen = span.completedAt === undefined;
+    const attributes = Object.entries(span.attributes);
+
+    return (
+        <>
+            <div
+                className={clsx(
+                    'flex items-start gap-2 px-2 py-1 rounded text-xs',
+                    span.success === false ? 'bg-red-50' : isOpen ? 'bg-teal-50' : 'hover:bg-gray-50'
+                )}
+                style={{ marginLeft: depth * 16 }}
+            >
+                {isOpen ? (
+                    <Loader2 className="w-3 h-3 mt-0.5 text-teal-500 animate-spin shrink-0" />
+                ) : span.success === undefined ? (
+                    <CircleDashed className="w-3 h-3 mt-0.5 text-gray-400 shrink-0" />
+                ) : span.success ? (
+                    <CheckCircle className="w-3 h-3 mt-0.5 text-green-500 shrink-0" />
+                ) : (
+                    <XCircle className="w-3 h-3 mt-0.5 text-red-500 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                        <span className="font-mono text-teal-700">&lt;{span.tagName}&gt;</span>
+                        <span className="ml-auto text-gray-500 shrink-0">
+                            {isOpen ? 'streaming' : span.durationMs !== undefined ? formatDuration(span.durationMs) : ''}
+                        </span>
+                    </div>
+                    {attributes.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-0.5">
+                            {attributes.map(([key, value]) => (
+                                <span key={key} className="px-1 rounded bg-gray-100 text-gray-600 font-mono break-all">
+                                    {key}=<span className="text-gray-800">{value}</span>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    {span.errorMessage && (
+                        <div className="text-red-600 mt-0.5">{span.errorMessage}</div>
+                    )}
+                </div>
+            </div>
+            {span.children.map(child => (
+                <TagSpanItem key={child.id} span={child} depth={depth + 1} />
+            ))}
+        </>
+    );
+}
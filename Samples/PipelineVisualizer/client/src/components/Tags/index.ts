@@ -0,0 +1 @@
+export { TagList, StepTags } from './TagList';
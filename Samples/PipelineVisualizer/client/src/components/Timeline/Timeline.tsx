@@ -0,0 +1,273 @@
+import { useMemo } from 'react';
+import { clsx } from 'clsx';
+import { ChartGantt } from 'lucide-react';
+import { PipelineDefinition, PipelineStep, SseEvent } from '../../types';
+import { formatDuration } from '../../utils/timeSpan';
+import { isGroupStep, isParallelStep, isRouterStep, childSteps } from '../../utils/pipelineSteps';
+
+interface TimelineProps {
+    pipeline: PipelineDefinition | null;
+    events: SseEvent[];
+}
+
+/**
+ * Gantt-style view of step execution times for one run.
+ * Steps are laid out in definition order, one lane each; group phases are drawn
+ * as brackets and the chain of steps that determined the run's end is highlighted.
+ */
+export function Timeline({ pipeline, events }: TimelineProps) {
+    const model = useMemo(() => buildTimeline(pipeline, events), [pipeline, events]);
+
+    if (model.rows.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center bg-gray-50 text-gray-400 text-sm">
+                No step timings yet
+            </div>
+        );
+    }
+
+    const total = Math.max(model.end - model.start, 1);
+    const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+    return (
+        <div className="h-full flex flex-col bg-white overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <ChartGantt className="w-4 h-4 text-blue-500" />
+                <span className="text-sm font-medium text-gray-700">Timeline</span>
+                <span className="ml-auto text-xs text-gray-500">
+                    {formatDuration(model.end - model.start)}
+                </span>
+            </div>
+
+            <div className="flex-1 overflow-auto p-2">
+                {/* Axis */}
+                <div className="flex text-[10px] text-gray-400 mb-1">
+                    <div className="w-40 shrink-0" />
+                    <div className="flex-1 relative h-4">
+                        {ticks.map(tick => (
+                            <span
+                                key={tick}
+                                className="absolute -translate-x-1/2"
+                                style={{ left: `${tick * 100}%` }}
+                            >
+                                {formatDuration(total * tick)}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+
+                {model.rows.map(row => (
+                    <TimelineLane key={row.name} row={row} start={model.start} total={total} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function TimelineLane({ row, start, total }: { row: TimelineRow; start: number; total: number }) {
+    const left = ((row.start - start) / total) * 100;
+    const width = Math.max(((row.end - row.start) / total) * 100, 0.5);
+    const title = `${row.name}: ${formatDuration(row.end - row.start)}${row.running ? ' (running)' : ''}`;
+
+    return (
+        <div className="flex items-center h-6 text-xs">
+            <div
+                className={clsx('w-40 shrink-0 truncate pr-2', row.critical ? 'font-semibold text-slate-800' : 'text-slate-600')}
+                style={{ paddingLeft: row.depth * 12 }}
+                title={row.name}
+            >
+                {row.name}
+            </div>
+            <div className="flex-1 relative h-full border-l border-gray-100">
+                {row.kind === 'bracket' ? (
+                    <div
+                        className="absolute top-1/2 h-2 border-t-2 border-x-2 border-slate-400 rounded-t-sm"
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                        title={title}
+                    />
+                ) : (
+                    <div
+                        className={clsx(
+                            'absolute top-1 bottom-1 rounded',
+                            row.failed ? 'bg-red-400' :
+                                row.running ? 'bg-blue-400 animate-pulse' :
+                                    row.critical ? 'bg-amber-500' : 'bg-green-300',
+                            row.critical && 'ring-2 ring-amber-300'
+                        )}
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                        title={title}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
+
+// ==========================================
+// TIMELINE MODEL
+// ==========================================
+
+interface StepTiming {
+    start: number;
+    end?: number;
+    failed: boolean;
+}
+
+interface TimelineRow {
+    name: string;
+    depth: number;
+    kind: 'bar' | 'bracket';
+    start: number;
+    end: number;
+    running: boolean;
+    failed: boolean;
+    critical: boolean;
+}
+
+interface TimelineModel {
+    rows: TimelineRow[];
+    start: number;
+    end: number;
+}
+
+function buildTimeline(pipeline: PipelineDefinition | null, events: SseEvent[]): TimelineModel {
+    const timings = collectTimings(events);
+    if (timings.size === 0) {
+        return { rows: [], start: 0, end: 0 };
+    }
+
+    // Running bars extend to the latest event seen
+    const now = events.reduce((latest, e) => {
+        const time = Date.parse(e.timestamp);
+        return isNaN(time) ? latest : Math.max(latest, time);
+    }, -Infinity);
+    const steps = pipeline?.pipeline ?? [];
+    const critical = new Set(steps.flatMap(step => criticalPath(step, timings, now)));
+
+    const rows: TimelineRow[] = [];
+    const placed = new Set<string>();
+
+    const visit = (step: PipelineStep, depth: number) => {
+        const span = stepSpan(step, timings, now);
+        if (!span) return;
+
+        const own = timings.get(step.name);
+        rows.push({
+            name: step.name,
+            depth,
+            kind: isGroupStep(step) ? 'bracket' : 'bar',
+            start: span.start,
+            end: span.end,
+            running: !!own && own.end === undefined,
+            failed: own?.failed ?? false,
+            critical: critical.has(step.name),
+        });
+        placed.add(step.name);
+
+        childSteps(step).forEach(child => visit(child, depth + 1));
+    };
+
+    steps.forEach(step => visit(step, 0));
+
+    // Steps reported by the run but missing from the definition
+    timings.forEach((timing, name) => {
+        if (placed.has(name)) return;
+        rows.push({
+            name,
+            depth: 0,
+            kind: 'bar',
+            start: timing.start,
+            end: timing.end ?? now,
+            running: timing.end === undefined,
+            failed: timing.failed,
+            critical: false,
+        });
+    });
+
+    return {
+        rows,
+        start: Math.min(...rows.map(r => r.start)),
+        end: Math.max(...rows.map(r => r.end)),
+    };
+}
+
+/**
+ * First start and last completion per step. The bar length comes from the
+ * reported Duration when available; retries keep the first start.
+ */
+function collectTimings(events: SseEvent[]): Map<string, StepTiming> {
+    const timings = new Map<string, StepTiming>();
+    // Start of each step's attempt still running, paired with its step.completed
+    const attemptStarts = new Map<string, number>();
+
+    for (const event of events) {
+        if (event.type !== 'pipeline') continue;
+        const timestamp = Date.parse(event.timestamp);
+        if (isNaN(timestamp)) continue;
+
+        if (event.eventType === 'step.started') {
+            attemptStarts.set(event.stepName, timestamp);
+            const existing = timings.get(event.stepName);
+            timings.set(event.stepName, {
+                start: existing?.start ?? timestamp,
+                failed: existing?.failed ?? false,
+            });
+        } else if (event.eventType === 'step.completed') {
+            // A retry spans from the first attempt's start to the last attempt's completion
+            const duration = event.data.durationMs;
+            const attemptStart = attemptStarts.get(event.stepName);
+            attemptStarts.delete(event.stepName);
+            const start = attemptStart ?? (duration !== undefined ? timestamp - duration : timestamp);
+            const existing = timings.get(event.stepName);
+            timings.set(event.stepName, {
+                start: Math.min(existing?.start ?? start, start),
+                end: duration !== undefined && attemptStart !== undefined ? start + duration : timestamp,
+                failed: !event.data.success,
+            });
+        }
+    }
+
+    return timings;
+}
+
+/**
+ * Time range covered by a step: its own timing, widened by any timed descendants.
+ */
+function stepSpan(step: PipelineStep, timings: Map<string, StepTiming>, now: number): { start: number; end: number } | undefined {
+    const own = timings.get(step.name);
+    let start = own?.start ?? Infinity;
+    let end = own ? (own.end ?? now) : -Infinity;
+
+    for (const child of childSteps(step)) {
+        const span = stepSpan(child, timings, now);
+        if (!span) continue;
+        start = Math.min(start, span.start);
+        end = Math.max(end, span.end);
+    }
+
+    return start === Infinity ? undefined : { start, end };
+}
+
+/**
+ * Steps that determined when a step finished: every step of a sequence,
+ * but only the latest-finishing branch of a parallel group or router.
+ */
+function criticalPath(step: PipelineStep, timings: Map<string, StepTiming>, now: number): string[] {
+    const span = stepSpan(step, timings, now);
+    if (!span) return [];
+
+    if (isParallelStep(step) || isRouterStep(step)) {
+        let latest: PipelineStep | undefined;
+        let latestEnd = -Infinity;
+        for (const child of childSteps(step)) {
+            const childSpan = stepSpan(child, timings, now);
+            if (childSpan && childSpan.end > latestEnd) {
+                latest = child;
+                latestEnd = childSpan.end;
+            }
+        }
+        return [step.name, ...(latest ? criticalPath(latest, timings, now) : [])];
+    }
+
+    return [step.name, ...childSteps(step).flatMap(child => criticalPath(child, timings, now))];
+}
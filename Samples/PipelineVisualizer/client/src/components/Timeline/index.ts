@@ -0,0 +1 @@
+export { Timeline } from './Timeline';
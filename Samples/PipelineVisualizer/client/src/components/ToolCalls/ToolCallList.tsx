@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { clsx } from 'clsx';
+import { Wrench, ChevronDown, ChevronRight, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { ToolCall } from '../../types';
+import { formatDuration } from '../../utils/timeSpan';
+
+interface ToolCallListProps {
+    toolCalls: ToolCall[];
+}
+
+/**
+ * Tool invocations of a run grouped by step, with arguments, results and failures.
+ */
+export function ToolCallList({ toolCalls }: ToolCallListProps) {
+    if (toolCalls.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center bg-gray-50 text-gray-400 text-sm">
+                No tool calls yet
+            </div>
+        );
+    }
+
+    const byStep = new Map<string, ToolCall[]>();
+    toolCalls.forEach(call => byStep.set(call.stepName, [...(byStep.get(call.stepName) ?? []), call]));
+    const failed = toolCalls.filter(call => call.success === false).length;
+
+    return (
+        <div className="h-full flex flex-col bg-white overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <Wrench className="w-4 h-4 text-orange-500" />
+                <span className="text-sm font-medium text-gray-700">Tool Calls</span>
+                <span className="ml-auto text-xs text-gray-500">
+                    {toolCalls.length} calls{failed > 0 && <span className="text-red-500"> · {failed} failed</span>}
+                </span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-3">
+                {Array.from(byStep.entries()).map(([stepName, calls]) => (
+                    <StepToolCalls key={stepName} title={stepName} calls={calls} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Tool calls of a single step.
+ */
+export function StepToolCalls({ title, calls }: { title: string; calls: ToolCall[] }) {
+    return (
+        <div>
+            <div className="text-xs font-semibold text-amber-600 mb-1">
+                {title} <span className="font-normal text-gray-400">({calls.length})</span>
+            </div>
+            <div className="space-y-1">
+                {calls.map(call => (
+                    <ToolCallItem key={call.id} call={call} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function ToolCallItem({ call }: { call: ToolCall }) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const running = call.success === undefined;
+
+    return (
+        <div className={clsx(
+            'border rounded-lg overflow-hidden',
+            call.success === false ? 'border-red-200' : 'border-gray-200'
+        )}>
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full px-2 py-1.5 bg-gray-50 hover:bg-gray-100 transition-colors flex items-center gap-2 text-left text-xs"
+            >
+                {isExpanded ? (
+                    <ChevronDown className="w-3 h-3 text-gray-500 shrink-0" />
+                ) : (
+                    <ChevronRight className="w-3 h-3 text-gray-500 shrink-0" />
+                )}
+                {running ? (
+                    <Loader2 className="w-3 h-3 text-blue-500 animate-spin shrink-0" />
+                ) : call.success ? (
+                    <CheckCircle className="w-3 h-3 text-green-500 shrink-0" />
+                ) : (
+                    <XCircle className="w-3 h-3 text-red-500 shrink-0" />
+                )}
+                <span className="font-mono text-gray-800">{call.toolName}</span>
+                <span className="ml-auto text-gray-500">
+                    {call.durationMs !== undefined ? formatDuration(call.durationMs) : running ? 'running' : ''}
+                </span>
+            </button>
+
+            {isExpanded && (
+                <div className="p-2 bg-slate-50 space-y-2 text-xs">
+                    {call.errorMessage && (
+                        <div className="text-red-600">{call.errorMessage}</div>
+                    )}
+                    <JsonSection title="Arguments" value={call.arguments} />
+                    <JsonSection title="Result" value={call.result} />
+                </div>
+            )}
+        </div>
+    );
+}
+
+function JsonSection({ title, value }: { title: string; value?: Record<string, unknown> }) {
+    return (
+        <div>
+            <div className="text-gray-500 mb-0.5">{title}</div>
+            {value && Object.keys(value).length > 0 ? (
+                <pre className="font-mono text-gray-700 overflow-x-auto whitespace-pre-wrap break-words">
+                    {JSON.stringify(value, null, 2)}
+                </pre>
+            ) : (
+                <div className="text-gray-400 italic">none reported</div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { ToolCallList, StepToolCalls } from './ToolCallList';
@@ -0,0 +1,84 @@
+import { clsx } from 'clsx';
+import { ShieldCheck, ShieldAlert, RotateCcw } from 'lucide-react';
+import { ValidationAttempt } from '../../types';
+
+interface ValidationListProps {
+    validations: Record<string, ValidationAttempt[]>;
+}
+
+/**
+ * Validation attempts of a run grouped by step, with the error that caused each retry.
+ */
+export function ValidationList({ validations }: ValidationListProps) {
+    const steps = Object.entries(validations);
+
+    if (steps.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center bg-gray-50 text-gray-400 text-sm">
+                No validation results yet
+            </div>
+        );
+    }
+
+    const retries = steps.reduce((sum, [, attempts]) => sum + attempts.filter(attempt => !attempt.isValid).length, 0);
+
+    return (
+        <div className="h-full flex flex-col bg-white overflow-hidden">
+            <div className="px-4 py-2 bg-gray-50 border-b flex items-center gap-2">
+                <RotateCcw className="w-4 h-4 text-amber-500" />
+                <span className="text-sm font-medium text-gray-700">Validation Retries</span>
+                <span className="ml-auto text-xs text-gray-500">{retries} failed attempts</span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-3">
+                {steps.map(([stepName, attempts]) => (
+                    <StepValidations key={stepName} title={stepName} attempts={attempts} />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Validation attempts of a single step.
+ */
+export function StepValidations({ title, attempts }: { title: string; attempts: ValidationAttempt[] }) {
+    return (
+        <div>
+            <div className="text-xs font-semibold text-amber-600 mb-1">
+                {title} <span className="font-normal text-gray-400">({attempts.length})</span>
+            </div>
+            <div className="space-y-1">
+                {attempts.map((attempt, index) => (
+                    <div
+                        key={index}
+                        className={clsx(
+                            'flex items-start gap-2 px-2 py-1 rounded text-xs',
+                            attempt.isValid ? 'bg-green-50' : 'bg-amber-50'
+                        )}
+                    >
+                        {attempt.isValid
+                            ? <ShieldCheck className="w-3 h-3 mt-0.5 text-green-600 shrink-0" />
+                            : <ShieldAlert className="w-3 h-3 mt-0.5 text-amber-600 shrink-0" />}
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 text-gray-700">
+                                <span>Attempt {attempt.attemptNumber}</span>
+                                {attempt.validationType && (
+                                    <span className="px-1 rounded bg-white border border-gray-200 text-gray-500">
+                                        {attempt.validationType}
+                                    </span>
+                                )}
+                                <span className="ml-auto text-gray-400">
+                                    {new Date(attempt.timestamp).toLocaleTimeString()}
+                                </span>
+                            </div>
+                            {attempt.validationError && (
+                                <div className="text-amber-700 break-words mt-0.5">{attempt.validationError}</div>
+                            )}
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1 @@
+export { ValidationList, StepValidations } from './ValidationList';
@@ -3,3 +3,15 @@ export { EventStream } from './EventStream';
 export { ContextViewer } from './ContextViewer';
 export { Header } from './Header';
 export { PipelineGraph } from './PipelineGraph';
+export { Timeline } from './Timeline';
+export { ReplayControls } from './Replay';
+export { CostPanel } from './CostPanel';
+export { ToolCallList } from './ToolCalls';
+export { InsightsPanel } from './InsightsPanel';
+export { TagList } from './Tags';
+export { StepDetailDrawer } from './StepDetail';
+export { ValidationList } from './Validation';
+export { PipelineEditor } from './PipelineEditor';
+export { DefinitionDiffView } from './DefinitionDiff';
+export { ConversationSidebar } from './Conversations';
+export { RunComparisonView } from './RunComparison';
@@ -1,4 +1,9 @@
 export { useSse } from './useSse';
 export { useChat } from './useChat';
+export { useReplay } from './useReplay';
+export { usePricing } from './usePricing';
 export { usePipelines, usePipelineSchema } from './usePipelines';
 
+export { useFilterPresets } from './useFilterPresets';
+export { useGraphFolds } from './useGraphFolds';
+export { usePipelineEditor } from './usePipelineEditor';
@@ -1,48 +1,99 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { apiClient } from '../services/apiClient';
-import { ChatMessage } from '../types';
+import { conversationStore, createConversation } from '../services/conversationStore';
+import { ChatMessage, Conversation } from '../types';
 
 interface UseChatReturn {
     messages: ChatMessage[];
     isProcessing: boolean;
     error?: string;
+    /** CorrelationId of the in-flight or last request. */
+    correlationId: string | null;
     sendMessage: (content: string) => Promise<void>;
+    /** Aborts the in-flight request, which cancels the run on the server. */
+    cancel: () => void;
+    /** Starts a new conversation; the current one stays stored. */
     clearMessages: () => void;
+    /** Stored conversations, most recently used first. */
+    conversations: Conversation[];
+    activeConversation: Conversation;
+    newConversation: () => void;
+    resumeConversation: (id: string) => void;
+    renameConversation: (id: string, title: string) => void;
+    deleteConversation: (id: string) => void;
 }
 
 /**
  * Hook for managing chat state and API communication.
+ * Conversations are persisted in IndexedDB; on load the most recent one is
+ * resumed, and its backend conversationId is sent with the next message.
  */
 export function useChat(): UseChatReturn {
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
-    const [conversationId, setConversationId] = useState<string | null>(null);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [active, setActive] = useState<Conversation>(createConversation);
+    const [correlationId, setCorrelationId] = useState<string | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
     const [error, setError] = useState<string | undefined>();
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        conversationStore.list()
+            .then((stored) => {
+                setConversations(stored);
+                // Only resume if nothing was typed while loading
+                if (stored.length > 0) setActive((prev) => prev.messages.length === 0 ? stored[0] : prev);
+            })
+            .catch((err) => console.error('Failed to load conversations:', err));
+    }, []);
+
+    // Persist the active conversation whenever it changes; empty ones are not stored
+    useEffect(() => {
+        if (active.messages.length === 0) return;
+        setConversations((prev) => [active, ...prev.filter((c) => c.id !== active.id)]);
+        conversationStore.save(active).catch((err) => console.error('Failed to save conversation:', err));
+    }, [active]);
+
+    /** Appends to the conversation that sent the request, if it is still the active one. */
+    const appendMessage = useCallback((id: string, message: ChatMessage, conversationId?: string) => {
+        setActive((prev) => prev.id !== id ? prev : {
+            ...prev,
+            conversationId: conversationId ?? prev.conversationId,
+            messages: [...prev.messages, message],
+            updatedAt: new Date().toISOString(),
+        });
+    }, []);
 
     const sendMessage = useCallback(async (content: string) => {
         if (!content.trim() || isProcessing) return;
 
         setError(undefined);
 
+        // Chosen client-side so streamed events can be matched while the request is in flight
+        const requestCorrelationId = crypto.randomUUID();
+        const conversation = active;
+
         // Add user message immediately
         const userMessage: ChatMessage = {
             id: crypto.randomUUID(),
             role: 'user',
             content: content.trim(),
             timestamp: new Date(),
+            correlationId: requestCorrelationId,
         };
-        setMessages((prev) => [...prev, userMessage]);
+        appendMessage(conversation.id, userMessage);
         setIsProcessing(true);
+        setCorrelationId(requestCorrelationId);
+        const abortController = new AbortController();
+        abortRef.current = abortController;
 
         try {
-            const response = await apiClient.sendMessage(content, conversationId);
+            const response = await apiClient.sendMessage(content, conversation.conversationId, requestCorrelationId, abortController.signal);
 
-            // Update conversation ID if provided
-            if (response.conversationId) {
-                setConversationId(response.conversationId);
+            if (response.correlationId) {
+                setCorrelationId(response.correlationId);
             }
 
-            // Add assistant response
+            // Add assistant response; keeps the conversation ID the backend assigned
             const assistantMessage: ChatMessage = {
                 id: crypto.randomUUID(),
                 role: 'assistant',
@@ -50,12 +101,23 @@ export function useChat(): UseChatReturn {
                 timestamp: new Date(),
                 correlationId: response.correlationId,
             };
-            setMessages((prev) => [...prev, assistantMessage]);
+            appendMessage(conversation.id, assistantMessage, response.conversationId || undefined);
 
             if (!response.success) {
                 setError(response.error);
             }
         } catch (err) {
+            if (abortController.signal.aborted) {
+                appendMessage(conversation.id, {
+                    id: crypto.randomUUID(),
+                    role: 'system',
+                    content: 'Cancelled',
+                    timestamp: new Date(),
+                    correlationId: requestCorrelationId,
+                });
+                return;
+            }
+
             const errorMessage = err instanceof Error ? err.message : 'Unknown error';
             setError(errorMessage);
 
@@ -65,23 +127,67 @@ export function useChat(): UseChatReturn {
                 role: 'system',
                 content: `Error: ${errorMessage}`,
                 timestamp: new Date(),
+                correlationId: requestCorrelationId,
             };
-            setMessages((prev) => [...prev, errorChatMessage]);
+            appendMessage(conversation.id, errorChatMessage);
         } finally {
+            abortRef.current = null;
             setIsProcessing(false);
         }
-    }, [isProcessing, conversationId]);
+    }, [isProcessing, active, appendMessage]);
 
-    const clearMessages = useCallback(() => {
-        setMessages([]);
+    const cancel = useCallback(() => {
+        abortRef.current?.abort();
+    }, []);
+
+    const newConversation = useCallback(() => {
+        setActive(createConversation());
+        setCorrelationId(null);
         setError(undefined);
     }, []);
 
+    const resumeConversation = useCallback((id: string) => {
+        const conversation = conversations.find((c) => c.id === id);
+        if (!conversation) return;
+        setActive(conversation);
+        setCorrelationId(null);
+        setError(undefined);
+    }, [conversations]);
+
+    const renameConversation = useCallback((id: string, title: string) => {
+        if (id === active.id) {
+            setActive((prev) => ({ ...prev, title: title.trim() }));
+            return;
+        }
+        const conversation = conversations.find((c) => c.id === id);
+        if (!conversation) return;
+        const renamed = { ...conversation, title: title.trim() };
+        setConversations((prev) => prev.map((c) => c.id === id ? renamed : c));
+        conversationStore.save(renamed).catch((err) => console.error('Failed to save conversation:', err));
+    }, [active.id, conversations]);
+
+    const deleteConversation = useCallback((id: string) => {
+        setConversations((prev) => prev.filter((c) => c.id !== id));
+        conversationStore.remove(id).catch((err) => console.error('Failed to delete conversation:', err));
+        if (id === active.id) {
+            setActive(createConversation());
+            setCorrelationId(null);
+        }
+    }, [active.id]);
+
     return {
-        messages,
+        messages: active.messages,
         isProcessing,
         error,
+        correlationId,
         sendMessage,
-        clearMessages,
+        cancel,
+        clearMessages: newConversation,
+        conversations,
+        activeConversation: active,
+        newConversation,
+        resumeConversation,
+        renameConversation,
+        deleteConversation,
     };
 }
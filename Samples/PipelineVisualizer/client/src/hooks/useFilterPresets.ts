@@ -0,0 +1,36 @@
+import { useState, useCallback } from 'react';
+import { filterPresetStore } from '../services/eventFilter';
+import { EventFilter, EventFilterPreset } from '../types';
+
+interface UseFilterPresetsReturn {
+    presets: EventFilterPreset[];
+    savePreset: (name: string, filter: EventFilter) => void;
+    deletePreset: (name: string) => void;
+}
+
+/**
+ * Hook for the locally persisted event stream filter presets.
+ */
+export function useFilterPresets(): UseFilterPresetsReturn {
+    const [presets, setPresets] = useState<EventFilterPreset[]>(() => filterPresetStore.load());
+
+    const update = useCallback((next: EventFilterPreset[]) => {
+        filterPresetStore.save(next);
+        setPresets(next);
+    }, []);
+
+    const savePreset = useCallback((name: string, filter: EventFilter) => {
+        // Saving under an existing name replaces that preset
+        update([...presets.filter(preset => preset.name !== name), { name, filter }]);
+    }, [presets, update]);
+
+    const deletePreset = useCallback((name: string) => {
+        update(presets.filter(preset => preset.name !== name));
+    }, [presets, update]);
+
+    return {
+        presets,
+        savePreset,
+        deletePreset,
+    };
+}
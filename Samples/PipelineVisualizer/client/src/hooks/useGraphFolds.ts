@@ -0,0 +1,66 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { findFoldableSteps, foldStore, resolveCollapsed } from '../services/folds';
+import { findUntakenRoutes } from '../services/routing';
+import { FoldOverrides, PipelineDefinition, PipelineStep, RoutingDecision } from '../types';
+
+interface UseGraphFoldsReturn {
+    /** Groups, parallel steps and routes that can collapse, in definition order. */
+    foldable: PipelineStep[];
+    /** Names of the collapsed steps; keeps its identity while the folds stay the same. */
+    collapsed: Set<string>;
+    toggleFold: (stepName: string) => void;
+    setAllFolds: (collapsed: boolean) => void;
+}
+
+/**
+ * Hook for the collapsed subgraphs of a pipeline graph, persisted per pipeline.
+ * Untaken routes collapse unless the user expanded them.
+ */
+export function useGraphFolds(
+    pipeline: PipelineDefinition | null,
+    routing: Record<string, RoutingDecision>
+): UseGraphFoldsReturn {
+    const pipelineName = pipeline?.name ?? '';
+    const [overrides, setOverrides] = useState<FoldOverrides>(() => foldStore.load(pipelineName));
+
+    useEffect(() => {
+        setOverrides(foldStore.load(pipelineName));
+    }, [pipelineName]);
+
+    const foldable = useMemo(
+        () => pipeline ? findFoldableSteps(pipeline.pipeline) : [],
+        [pipeline]
+    );
+
+    const untakenRoutes = useMemo(
+        () => pipeline ? findUntakenRoutes(pipeline.pipeline, routing) : [],
+        [pipeline, routing]
+    );
+
+    // Routing updates arrive with every run; only a change of folds should re-layout
+    const collapsedKey = [...resolveCollapsed(foldable, overrides, untakenRoutes)].join('\n');
+    const collapsed = useMemo(
+        () => new Set(collapsedKey ? collapsedKey.split('\n') : []),
+        [collapsedKey]
+    );
+
+    const update = useCallback((next: FoldOverrides) => {
+        foldStore.save(pipelineName, next);
+        setOverrides(next);
+    }, [pipelineName]);
+
+    const toggleFold = useCallback((stepName: string) => {
+        update({ ...overrides, [stepName]: !collapsed.has(stepName) });
+    }, [overrides, collapsed, update]);
+
+    const setAllFolds = useCallback((collapseAll: boolean) => {
+        update(Object.fromEntries(foldable.map(step => [step.name, collapseAll])));
+    }, [foldable, update]);
+
+    return {
+        foldable,
+        collapsed,
+        toggleFold,
+        setAllFolds,
+    };
+}
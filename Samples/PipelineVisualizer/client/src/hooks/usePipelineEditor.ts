@@ -0,0 +1,78 @@
+import { useState, useCallback } from 'react';
+import { PipelineDefinition } from '../types';
+
+interface EditHistory {
+    past: PipelineDefinition[];
+    present: PipelineDefinition | null;
+    future: PipelineDefinition[];
+}
+
+interface UsePipelineEditorReturn {
+    draft: PipelineDefinition | null;
+    /** Applies an edit; returns the error message when the edit was rejected. */
+    apply: (edit: (definition: PipelineDefinition) => PipelineDefinition) => string | undefined;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+    reset: (definition: PipelineDefinition | null) => void;
+}
+
+const MAX_HISTORY = 100;
+
+/**
+ * Hook for an editable copy of a pipeline definition with undo/redo.
+ */
+export function usePipelineEditor(): UsePipelineEditorReturn {
+    const [history, setHistory] = useState<EditHistory>({ past: [], present: null, future: [] });
+
+    const apply = useCallback((edit: (definition: PipelineDefinition) => PipelineDefinition) => {
+        if (!history.present) return 'Nothing to edit';
+
+        let next: PipelineDefinition;
+        try {
+            next = edit(history.present);
+        } catch (err) {
+            return err instanceof Error ? err.message : 'Edit failed';
+        }
+
+        if (next !== history.present) {
+            setHistory({
+                past: [...history.past, history.present].slice(-MAX_HISTORY),
+                present: next,
+                future: [],
+            });
+        }
+        return undefined;
+    }, [history]);
+
+    const undo = useCallback(() => {
+        setHistory(current => current.past.length === 0 || !current.present ? current : {
+            past: current.past.slice(0, -1),
+            present: current.past[current.past.length - 1],
+            future: [current.present, ...current.future],
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(current => current.future.length === 0 || !current.present ? current : {
+            past: [...current.past, current.present],
+            present: current.future[0],
+            future: current.future.slice(1),
+        });
+    }, []);
+
+    const reset = useCallback((definition: PipelineDefinition | null) => {
+        setHistory({ past: [], present: definition && structuredClone(definition), future: [] });
+    }, []);
+
+    return {
+        draft: history.present,
+        apply,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+        reset,
+    };
+}
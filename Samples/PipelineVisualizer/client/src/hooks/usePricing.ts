@@ -0,0 +1,42 @@
+import { useState, useCallback } from 'react';
+import { pricingStore, DEFAULT_PRICING } from '../services/pricing';
+import { ModelPricing, PricingTable } from '../types';
+
+interface UsePricingReturn {
+    pricing: PricingTable;
+    setModelPricing: (model: string, pricing: ModelPricing) => void;
+    removeModel: (model: string) => void;
+    resetPricing: () => void;
+}
+
+/**
+ * Hook for the locally persisted model pricing table.
+ */
+export function usePricing(): UsePricingReturn {
+    const [pricing, setPricing] = useState<PricingTable>(() => pricingStore.load());
+
+    const update = useCallback((next: PricingTable) => {
+        pricingStore.save(next);
+        setPricing(next);
+    }, []);
+
+    const setModelPricing = useCallback((model: string, modelPricing: ModelPricing) => {
+        update({ ...pricing, [model]: modelPricing });
+    }, [pricing, update]);
+
+    const removeModel = useCallback((model: string) => {
+        const { [model]: _, ...rest } = pricing;
+        update(rest);
+    }, [pricing, update]);
+
+    const resetPricing = useCallback(() => {
+        update({ ...DEFAULT_PRICING });
+    }, [update]);
+
+    return {
+        pricing,
+        setModelPricing,
+        removeModel,
+        resetPricing,
+    };
+}
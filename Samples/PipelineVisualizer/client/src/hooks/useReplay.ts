@@ -0,0 +1,141 @@
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { applyEventsToRuns, resolveDisplayedRun, selectRunView } from '../services/runRegistry';
+import { PipelineRun, RunView, SessionRecording, SseEvent } from '../types';
+
+interface UseReplayReturn extends RunView {
+    runs: PipelineRun[];
+    playing: boolean;
+    speed: number;
+    /** Playback position in ms from the first recorded event. */
+    position: number;
+    duration: number;
+    play: () => void;
+    pause: () => void;
+    seek: (position: number) => void;
+    setSpeed: (speed: number) => void;
+}
+
+interface ReplayCache {
+    recording: SessionRecording | null;
+    cursor: number;
+    runs: PipelineRun[];
+}
+
+/**
+ * Hook for replaying a session recording through the same run logic as useSse.
+ * The state at any position is the fold of every event recorded up to that time.
+ */
+export function useReplay(recording: SessionRecording | null): UseReplayReturn {
+    const [position, setPosition] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(1);
+
+    const events = useMemo(() => recording?.events ?? [], [recording]);
+    const offsets = useMemo(() => computeOffsets(events), [events]);
+    const duration = offsets.length > 0 ? offsets[offsets.length - 1] : 0;
+
+    useEffect(() => {
+        setPosition(0);
+        setPlaying(false);
+    }, [recording]);
+
+    // Playback clock
+    useEffect(() => {
+        if (!playing) return;
+
+        let last = performance.now();
+        let frame = requestAnimationFrame(function tick(now) {
+            const elapsed = (now - last) * speed;
+            last = now;
+            setPosition(prev => Math.min(prev + elapsed, duration));
+            frame = requestAnimationFrame(tick);
+        });
+
+        return () => cancelAnimationFrame(frame);
+    }, [playing, speed, duration]);
+
+    useEffect(() => {
+        if (playing && position >= duration) {
+            setPlaying(false);
+        }
+    }, [playing, position, duration]);
+
+    // Fold incrementally while moving forward; seeking backwards refolds from the start
+    const cursor = upperBound(offsets, position);
+    const cacheRef = useRef<ReplayCache>({ recording: null, cursor: 0, runs: [] });
+    const runs = useMemo(() => {
+        const cache = cacheRef.current;
+        const base = cache.recording === recording && cache.cursor <= cursor
+            ? cache
+            : { recording, cursor: 0, runs: [] };
+
+        const next = applyEventsToRuns(base.runs, events.slice(base.cursor, cursor));
+
+        cacheRef.current = { recording, cursor, runs: next };
+        return next;
+    }, [recording, cursor, events]);
+
+    const selectedRun = resolveDisplayedRun(runs, null, recording?.correlationId);
+    const replayedEvents = useMemo(() => events.slice(0, cursor), [events, cursor]);
+
+    const play = useCallback(() => {
+        setPosition(prev => (prev >= duration ? 0 : prev));
+        setPlaying(true);
+    }, [duration]);
+
+    const pause = useCallback(() => setPlaying(false), []);
+
+    const seek = useCallback((next: number) => {
+        setPosition(Math.max(0, Math.min(next, duration)));
+    }, [duration]);
+
+    return {
+        ...selectRunView(selectedRun, replayedEvents),
+        runs,
+        playing,
+        speed,
+        position,
+        duration,
+        play,
+        pause,
+        seek,
+        setSpeed,
+    };
+}
+
+/**
+ * Event times relative to the first event, made non-decreasing so that
+ * playback preserves arrival order even when timestamps interleave.
+ */
+function computeOffsets(events: SseEvent[]): number[] {
+    const offsets: number[] = [];
+    let base: number | undefined;
+    let previous = 0;
+
+    for (const event of events) {
+        const time = Date.parse(event.timestamp);
+        if (base === undefined && !isNaN(time)) {
+            base = time;
+        }
+        const offset = isNaN(time) || base === undefined ? previous : Math.max(previous, time - base);
+        offsets.push(offset);
+        previous = offset;
+    }
+
+    return offsets;
+}
+
+/** Number of offsets less than or equal to the position. */
+function upperBound(offsets: number[], position: number): number {
+    let low = 0;
+    let high = offsets.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (offsets[mid] <= position) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
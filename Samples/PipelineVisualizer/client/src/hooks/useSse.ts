@@ -1,109 +1,132 @@
-import { useEffect, useRef, useState, useCallback } from 'react';
-import { SseClient } from '../services/sseClient';
-import { SseEvent, ContextSnapshot, PipelineStatus } from '../types';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { EventIngest, readIngestConfig } from '../services/eventIngest';
+import { EventBatch } from '../services/eventBatcher';
+import { eventSpill } from '../services/eventSpill';
+import { applyEventsToRuns, cancelRun, resolveDisplayedRun, selectRunView } from '../services/runRegistry';
+import { RingBuffer } from '../utils/ringBuffer';
+import { SseEvent, PipelineRun, RunView, StreamGap, TransportKind, EventDiagnostic } from '../types';
 
-// ... imports
-
-interface UseSseReturn {
-    events: SseEvent[];
+interface UseSseReturn extends RunView {
     connected: boolean;
-    status: PipelineStatus;
-    activeSteps: string[];
-    completedSteps: string[];
-    failedSteps: string[];
-    context?: ContextSnapshot;
+    transport: TransportKind;
+    /** Places in the stream where events were missed. */
+    gaps: StreamGap[];
+    /** Received events that failed to decode, most recent last. */
+    diagnostics: EventDiagnostic[];
+    /** Reconnects immediately instead of waiting for the next retry. */
+    reconnect: () => void;
+    runs: PipelineRun[];
+    selectedRun?: PipelineRun;
+    selectedRunId: string | null;
+    selectRun: (correlationId: string | null) => void;
+    /** Marks a run as cancelled without waiting for its pipeline.completed event. */
+    cancelRun: (correlationId: string) => void;
+    /** All events of a run, including those dropped from memory when they were spilled. */
+    loadRunEvents: (run: PipelineRun) => Promise<SseEvent[]>;
+    /** Forgets every event, spilled ones included. */
     clearEvents: () => void;
 }
 
 /**
- * Hook for managing SSE connection and event state.
+ * Hook for managing the event stream connection and per-run event state.
+ * Events arrive in batches, at most one per animation frame (see EventIngest).
+ * Memory is bounded: the stream and each run keep the newest bufferSize events.
+ * Runs are tracked by correlationId; the displayed run is the pinned one,
+ * or else the followed correlationId, or else the most recent run.
  */
-export function useSse(baseUrl: string = import.meta.env.VITE_API_URL || ''): UseSseReturn {
-    const [events, setEvents] = useState<SseEvent[]>([]);
+export function useSse(
+    baseUrl: string = import.meta.env.VITE_API_URL || '',
+    followCorrelationId?: string | null
+): UseSseReturn {
+    // Bumped when the stream buffer changes; the buffer itself is only copied when shown
+    const [bufferVersion, setBufferVersion] = useState(0);
     const [connected, setConnected] = useState(false);
-    const [status, setStatus] = useState<PipelineStatus>('idle');
-    const [activeSteps, setActiveSteps] = useState<Set<string>>(new Set());
-    const [completedSteps, setCompletedSteps] = useState<string[]>([]);
-    const [failedSteps, setFailedSteps] = useState<Set<string>>(new Set());
-    const [context, setContext] = useState<ContextSnapshot | undefined>();
+    const [gaps, setGaps] = useState<StreamGap[]>([]);
+    const [diagnostics, setDiagnostics] = useState<EventDiagnostic[]>([]);
+    const [runs, setRuns] = useState<PipelineRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
 
-    const clientRef = useRef<SseClient | null>(null);
+    const config = useMemo(() => readIngestConfig(baseUrl), [baseUrl]);
+    const ingestRef = useRef<EventIngest | null>(null);
+    const bufferRef = useRef<RingBuffer<SseEvent> | null>(null);
 
-    const handleEvent = useCallback((event: SseEvent) => {
-        console.log('SSE Event:', event);
-        setEvents((prev) => [...prev, event]);
+    const handleBatch = useCallback((batch: EventBatch) => {
+        if (batch.events.length > 0) {
+            const buffer = bufferRef.current ??= new RingBuffer(config.bufferSize);
+            buffer.push(batch.events);
+            setBufferVersion(version => version + 1);
+            setRuns((prev) => applyEventsToRuns(prev, batch.events, config.bufferSize));
+        }
+        if (batch.gaps.length > 0) {
+            setGaps((prev) => [...prev, ...batch.gaps]);
+        }
+        if (batch.diagnostics.length > 0) {
+            setDiagnostics((prev) => [...prev, ...batch.diagnostics]);
+        }
+    }, [config]);
 
-        if (event.type === 'pipeline') {
-            switch (event.eventType) {
-                case 'pipeline.started':
-                    setStatus('running');
-                    setCompletedSteps([]);
-                    setActiveSteps(new Set());
-                    setFailedSteps(new Set());
-                    break;
-                case 'pipeline.completed':
-                    setStatus('completed');
-                    setActiveSteps(new Set());
-                    break;
-                case 'step.started':
-                    setActiveSteps(prev => {
-                        const next = new Set(prev);
-                        next.add(event.stepName);
-                        return next;
-                    });
-                    break;
-                case 'step.completed':
-                    setActiveSteps(prev => {
-                        const next = new Set(prev);
-                        next.delete(event.stepName);
-                        return next;
-                    });
-                    setCompletedSteps((prev) => [...prev, event.stepName]);
+    const handleCancelRun = useCallback((correlationId: string) => {
+        setRuns((prev) => cancelRun(prev, correlationId, new Date().toISOString()));
+    }, []);
 
-                    // Check for error in result using PascalCase 'Success' property
-                    const data = event.data as any;
-                    // Check explicitly for Success === false (PascalCase based on user input)
-                    if (data && data.Success === false) {
-                        setFailedSteps(prev => {
-                            const next = new Set(prev);
-                            next.add(event.stepName);
-                            return next;
-                        });
-                    }
-                    break;
-                case 'context.snapshot':
-                    setContext(event.data as unknown as ContextSnapshot);
-                    break;
-            }
-        }
+    const reconnect = useCallback(() => {
+        ingestRef.current?.reconnect();
     }, []);
 
+    const loadRunEvents = useCallback(async (run: PipelineRun) => {
+        if (run.droppedEvents === 0 || !config.spill) return run.events;
+        return eventSpill.load(run.correlationId);
+    }, [config]);
+
     const clearEvents = useCallback(() => {
-        setEvents([]);
-        setStatus('idle');
-        setActiveSteps(new Set());
-        setCompletedSteps([]);
-        setFailedSteps(new Set());
-        setContext(undefined);
-    }, []);
+        if (config.spill) {
+            eventSpill.clear().catch((error) => console.error('[ingest] Failed to clear spilled events:', error));
+        }
+        bufferRef.current?.clear();
+        setBufferVersion(version => version + 1);
+        setGaps([]);
+        setDiagnostics([]);
+        setRuns([]);
+        setSelectedRunId(null);
+    }, [config]);
 
     useEffect(() => {
-        clientRef.current = new SseClient(baseUrl, handleEvent, setConnected);
-        clientRef.current.connect();
+        bufferRef.current = new RingBuffer(config.bufferSize);
+        ingestRef.current = new EventIngest(config, {
+            onBatch: handleBatch,
+            onConnection: setConnected,
+        });
+        ingestRef.current.connect();
 
         return () => {
-            clientRef.current?.disconnect();
+            ingestRef.current?.disconnect();
         };
-    }, [baseUrl, handleEvent]);
+    }, [config, handleBatch]);
+
+    const selectedRun = useMemo(
+        () => resolveDisplayedRun(runs, selectedRunId, followCorrelationId),
+        [runs, selectedRunId, followCorrelationId]
+    );
+
+    // The whole stream is only displayed while there is no run to show
+    const streamEvents = useMemo(
+        () => selectedRun ? [] : bufferRef.current?.toArray() ?? [],
+        [selectedRun, bufferVersion]
+    );
 
     return {
-        events,
+        ...selectRunView(selectedRun, streamEvents),
         connected,
-        status,
-        activeSteps: Array.from(activeSteps),
-        completedSteps,
-        failedSteps: Array.from(failedSteps),
-        context,
+        transport: config.transport.kind,
+        gaps,
+        diagnostics,
+        reconnect,
+        runs,
+        selectedRun,
+        selectedRunId,
+        selectRun: setSelectedRunId,
+        cancelRun: handleCancelRun,
+        loadRunEvents,
         clearEvents,
     };
 }
@@ -17,16 +17,30 @@ export const apiClient = {
         return response.json();
     },
 
+    /**
+     * Fetches the schema generated from a registered pipeline.
+     */
+    async getPipelineSchema(name: string): Promise<PipelineDefinition> {
+        const response = await fetch(`${API_BASE}/api/pipelines/${name}/schema`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch schema of ${name}: ${response.statusText}`);
+        }
+        return response.json();
+    },
+
     /**
      * Sends a chat message to execute the pipeline.
+     * The optional correlationId lets the caller match streamed events before the response arrives.
+     * Aborting the signal cancels the request and, with it, the server-side execution.
      */
-    async sendMessage(message: string, conversationId?: string | null): Promise<ChatResponse> {
-        const request: ChatRequest = { message, conversationId };
+    async sendMessage(message: string, conversationId?: string | null, correlationId?: string, signal?: AbortSignal): Promise<ChatResponse> {
+        const request: ChatRequest = { message, conversationId, correlationId };
 
         const response = await fetch(`${API_BASE}/api/pipelines/execute`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(request),
+            signal,
         });
 
         const data = await response.json();
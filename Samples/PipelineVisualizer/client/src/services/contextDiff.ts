@@ -0,0 +1,36 @@
+import { ContextChange, ContextDiff, ContextSnapshot } from '../types';
+
+/**
+ * Compares a snapshot with the previous one, key by key, for stepResults and metadata.
+ * The first snapshot of a run reports all its entries as added.
+ */
+export function diffSnapshots(previous: ContextSnapshot | undefined, current: ContextSnapshot): ContextDiff {
+    return {
+        stepResults: diffRecords(previous?.stepResults ?? {}, current.stepResults),
+        metadata: diffRecords(previous?.metadata ?? {}, current.metadata),
+    };
+}
+
+export function countChanges(diff: ContextDiff): number {
+    return diff.stepResults.length + diff.metadata.length;
+}
+
+function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>): ContextChange[] {
+    const changes: ContextChange[] = [];
+
+    for (const [key, value] of Object.entries(after)) {
+        if (!(key in before)) {
+            changes.push({ key, kind: 'added', after: value });
+        } else if (JSON.stringify(before[key]) !== JSON.stringify(value)) {
+            changes.push({ key, kind: 'changed', before: before[key], after: value });
+        }
+    }
+
+    for (const [key, value] of Object.entries(before)) {
+        if (!(key in after)) {
+            changes.push({ key, kind: 'removed', before: value });
+        }
+    }
+
+    return changes;
+}
@@ -0,0 +1,71 @@
+import { Conversation } from '../types';
+
+const DB_NAME = 'pipeline-visualizer';
+const DB_VERSION = 1;
+const STORE = 'conversations';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(STORE, { keyPath: 'id' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            database = null;
+            reject(request.error);
+        };
+    });
+    return database;
+}
+
+async function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const request = operation(db.transaction(STORE, mode).objectStore(STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Chat conversations persisted in IndexedDB, so a page refresh can resume them.
+ * Messages keep their Date timestamps (IndexedDB stores structured clones).
+ */
+export const conversationStore = {
+    /** All conversations, most recently updated first. */
+    async list(): Promise<Conversation[]> {
+        const conversations = await run<Conversation[]>('readonly', store => store.getAll());
+        return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    },
+
+    async save(conversation: Conversation): Promise<void> {
+        await run('readwrite', store => store.put(conversation));
+    },
+
+    async remove(id: string): Promise<void> {
+        await run('readwrite', store => store.delete(id));
+    },
+};
+
+export function createConversation(): Conversation {
+    const now = new Date().toISOString();
+    return {
+        id: crypto.randomUUID(),
+        conversationId: null,
+        title: '',
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/** Title of an untitled conversation: the start of its first message. */
+export function conversationTitle(conversation: Conversation): string {
+    if (conversation.title) return conversation.title;
+    const first = conversation.messages.find(message => message.role === 'user')?.content;
+    if (!first) return 'New conversation';
+    return first.length > 40 ? `${first.substring(0, 40)}…` : first;
+}
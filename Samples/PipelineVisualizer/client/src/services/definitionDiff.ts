@@ -0,0 +1,133 @@
+import { DefinitionDiff, PipelineDefinition, PipelineStep, StepDiff, StepFieldChange } from '../types';
+import { baseTypeName, childSteps, findStep } from '../utils/pipelineSteps';
+import { normalizeType } from './typeFlow';
+
+/**
+ * Merges two definitions into one graph. Steps are matched by name anywhere in the
+ * tree; steps only on the left side keep their place after their previous sibling,
+ * steps that moved are shown at their new place with a "parent" change.
+ */
+export function diffDefinitions(before: PipelineDefinition, after: PipelineDefinition): DefinitionDiff {
+    const steps: Record<string, StepDiff> = {};
+    const beforeParents = parentNames(before.pipeline);
+    const afterParents = parentNames(after.pipeline);
+
+    const mark = (step: PipelineStep, kind: 'added' | 'removed'): PipelineStep => {
+        steps[step.name] = { kind, changes: [] };
+        childSteps(step).forEach(child => mark(child, kind));
+        return step;
+    };
+
+    const mergeStep = (old: PipelineStep | undefined, step: PipelineStep): PipelineStep => {
+        if (!old) return mark(step, 'added');
+
+        const changes = diffFields(old, step);
+        if (beforeParents[step.name] !== afterParents[step.name]) {
+            changes.push({ field: 'parent', before: beforeParents[step.name] ?? '(root)', after: afterParents[step.name] ?? '(root)' });
+        }
+        steps[step.name] = { kind: changes.length > 0 ? 'modified' : 'unchanged', changes };
+
+        return {
+            ...step,
+            steps: old.steps || step.steps ? mergeList(old.steps ?? [], step.steps ?? []) : undefined,
+            routes: old.routes || step.routes ? mergeRoutes(old.routes ?? {}, step.routes ?? {}) : undefined,
+        };
+    };
+
+    const mergeList = (left: PipelineStep[], right: PipelineStep[]): PipelineStep[] => {
+        const merged = right.map(step => mergeStep(findStep(before.pipeline, step.name), step));
+
+        left.forEach((step, index) => {
+            if (findStep(after.pipeline, step.name)) return;
+            const position = index > 0 ? merged.findIndex(m => m.name === left[index - 1].name) + 1 : 0;
+            merged.splice(position, 0, mark(step, 'removed'));
+        });
+
+        return merged;
+    };
+
+    const mergeRoutes = (left: Record<string, PipelineStep>, right: Record<string, PipelineStep>): Record<string, PipelineStep> => {
+        const merged: Record<string, PipelineStep> = {};
+        for (const [route, target] of Object.entries(right)) {
+            merged[route] = mergeStep(findStep(before.pipeline, target.name), target);
+        }
+        for (const [route, target] of Object.entries(left)) {
+            if (findStep(after.pipeline, target.name)) continue;
+            // A route whose target was replaced keeps the old target beside the new one
+            merged[route in merged ? `${route} (before)` : route] = mark(target, 'removed');
+        }
+        return merged;
+    };
+
+    return {
+        merged: {
+            ...after,
+            pipeline: mergeList(before.pipeline, after.pipeline),
+            stepTypes: { ...before.stepTypes, ...after.stepTypes },
+        },
+        steps,
+    };
+}
+
+/**
+ * Counts steps per change kind, unchanged steps excluded.
+ */
+export function countStepChanges(diff: DefinitionDiff): Record<'added' | 'removed' | 'modified', number> {
+    const counts = { added: 0, removed: 0, modified: 0 };
+    for (const { kind } of Object.values(diff.steps)) {
+        if (kind !== 'unchanged') counts[kind]++;
+    }
+    return counts;
+}
+
+/**
+ * Reads a local pipeline-definition.json (or a saved schema response).
+ */
+export async function loadDefinitionFile(file: File): Promise<PipelineDefinition> {
+    const data = JSON.parse(await file.text());
+    if (!data || !Array.isArray(data.pipeline)) {
+        throw new Error(`${file.name} is not a pipeline definition: missing "pipeline" array`);
+    }
+    return { stepTypes: {}, intentions: {}, profiles: {}, ...data, name: data.name ?? file.name };
+}
+
+/**
+ * Field-level differences of one step. Type names are compared without generic
+ * arity suffixes and namespaces, so a saved file matches the live schema.
+ */
+function diffFields(old: PipelineStep, step: PipelineStep): StepFieldChange[] {
+    const changes: StepFieldChange[] = [];
+    const compare = (field: string, before: unknown, after: unknown) => {
+        if (JSON.stringify(before) !== JSON.stringify(after)) {
+            changes.push({ field, before, after });
+        }
+    };
+
+    compare('type', baseTypeName(old.type), baseTypeName(step.type));
+    compare('inputType', old.inputType && normalizeType(old.inputType), step.inputType && normalizeType(step.inputType));
+    compare('outputType', old.outputType && normalizeType(old.outputType), step.outputType && normalizeType(step.outputType));
+
+    const oldConfig = old.config ?? {};
+    const newConfig = step.config ?? {};
+    for (const key of new Set([...Object.keys(oldConfig), ...Object.keys(newConfig)])) {
+        compare(`config.${key}`, oldConfig[key], newConfig[key]);
+    }
+
+    if (old.routes || step.routes) {
+        compare('routes', Object.keys(old.routes ?? {}), Object.keys(step.routes ?? {}));
+    }
+    compare('defaultRoute', old.defaultRoute, step.defaultRoute);
+
+    return changes;
+}
+
+/** Parent step name of every step; route targets belong to their router. */
+function parentNames(steps: PipelineStep[], parent?: string): Record<string, string | undefined> {
+    return Object.assign(
+        {},
+        ...steps.map(step => ({
+            [step.name]: parent,
+            ...parentNames(childSteps(step), step.name),
+        }))
+    );
+}
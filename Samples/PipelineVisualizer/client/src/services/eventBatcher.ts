@@ -0,0 +1,81 @@
+import { EventDiagnostic, SseEvent, StreamGap, TransportHandlers } from '../types';
+import { TransportConfig } from './eventTransport';
+
+/**
+ * What a transport delivered since the previous hand-over.
+ */
+export interface EventBatch {
+    events: SseEvent[];
+    gaps: StreamGap[];
+    diagnostics: EventDiagnostic[];
+}
+
+export interface IngestConfig {
+    transport: TransportConfig;
+    /** Events kept in memory, both for the stream and for each run. */
+    bufferSize: number;
+    /** Also write events to IndexedDB (see eventSpill) as they arrive. */
+    spill: boolean;
+}
+
+/** Main thread to ingest worker. */
+export type IngestCommand =
+    | { type: 'connect'; config: IngestConfig }
+    | { type: 'reconnect' }
+    | { type: 'disconnect' };
+
+/** Ingest worker to main thread. 'unsupported' asks for the main-thread fallback. */
+export type IngestMessage =
+    | { type: 'batch'; batch: EventBatch }
+    | { type: 'connection'; connected: boolean }
+    | { type: 'unsupported' };
+
+/**
+ * Collects what a transport reports into a batch until take() hands it over.
+ */
+export class EventBatcher {
+    readonly handlers: Omit<TransportHandlers, 'onConnection'>;
+    private batch = emptyBatch();
+    private readonly onAdd: () => void;
+
+    constructor(onAdd: () => void = () => { }) {
+        this.onAdd = onAdd;
+        this.handlers = {
+            onEvent: (event) => {
+                this.batch.events.push(event);
+                this.onAdd();
+            },
+            onGap: (gap) => {
+                this.batch.gaps.push(gap);
+                this.onAdd();
+            },
+            onDiagnostic: (diagnostic) => {
+                this.batch.diagnostics.push(diagnostic);
+                this.onAdd();
+            },
+        };
+    }
+
+    add(batch: EventBatch): void {
+        this.batch = {
+            events: this.batch.events.concat(batch.events),
+            gaps: this.batch.gaps.concat(batch.gaps),
+            diagnostics: this.batch.diagnostics.concat(batch.diagnostics),
+        };
+        this.onAdd();
+    }
+
+    get isEmpty(): boolean {
+        return this.batch.events.length === 0 && this.batch.gaps.length === 0 && this.batch.diagnostics.length === 0;
+    }
+
+    take(): EventBatch {
+        const batch = this.batch;
+        this.batch = emptyBatch();
+        return batch;
+    }
+}
+
+function emptyBatch(): EventBatch {
+    return { events: [], gaps: [], diagnostics: [] };
+}
@@ -0,0 +1,254 @@
+import { EventPayloads, EventType, FinishReason, LogEvent, PipelineEvent, SseEvent } from '../types';
+import { parseTimeSpan } from '../utils/timeSpan';
+
+export type DecodeResult = { ok: true; event: SseEvent } | { ok: false; error: string };
+
+const LOG_LEVELS: LogEvent['level'][] = ['Debug', 'Information', 'Warning', 'Error', 'Fatal'];
+
+/** In declaration order, as Newtonsoft writes enums as their index. */
+const FINISH_REASONS: FinishReason[] = ['Streaming', 'Stop', 'Length', 'ToolCalls', 'ContentFilter', 'Other'];
+
+/**
+ * Reads payload fields by their camelCase name under either casing, collecting
+ * what is missing or mistyped. Fields with a fallback may be missing, e.g. in
+ * events from an older backend.
+ */
+class PayloadReader {
+    readonly errors: string[] = [];
+    private readonly data: Record<string, unknown>;
+
+    constructor(data: Record<string, unknown>) {
+        this.data = data;
+    }
+
+    string(name: string, fallback?: string): string {
+        const value = this.value(name);
+        if (typeof value === 'string') return value;
+        if (value === undefined && fallback !== undefined) return fallback;
+        return this.invalid(name, 'a string', fallback ?? '');
+    }
+
+    optionalString(name: string): string | undefined {
+        const value = this.value(name);
+        if (value === undefined || typeof value === 'string') return value;
+        return this.invalid(name, 'a string', undefined);
+    }
+
+    boolean(name: string, fallback?: boolean): boolean {
+        const value = this.value(name);
+        if (typeof value === 'boolean') return value;
+        if (value === undefined && fallback !== undefined) return fallback;
+        return this.invalid(name, 'a boolean', fallback ?? false);
+    }
+
+    number(name: string, fallback?: number): number {
+        const value = this.value(name);
+        if (typeof value === 'number') return value;
+        if (value === undefined && fallback !== undefined) return fallback;
+        return this.invalid(name, 'a number', fallback ?? 0);
+    }
+
+    optionalNumber(name: string): number | undefined {
+        const value = this.value(name);
+        if (value === undefined || typeof value === 'number') return value;
+        return this.invalid(name, 'a number', undefined);
+    }
+
+    record(name: string): Record<string, unknown> | undefined {
+        const value = this.value(name);
+        if (value === undefined || isRecord(value)) return value;
+        return this.invalid(name, 'an object', undefined);
+    }
+
+    /** A .NET TimeSpan, in milliseconds; already decoded events carry it as <name>Ms. */
+    duration(name: string): number | undefined {
+        const decoded = this.data[`${name}Ms`];
+        if (typeof decoded === 'number') return decoded;
+        const value = this.value(name);
+        if (value === undefined) return undefined;
+        return parseTimeSpan(value) ?? this.invalid(name, 'a TimeSpan', undefined);
+    }
+
+    /** A string enum, also accepted as its index. */
+    oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+        const value = this.value(name);
+        if (value === undefined) return fallback;
+        const match = typeof value === 'number'
+            ? allowed[value]
+            : allowed.find(option => option.toLowerCase() === String(value).toLowerCase());
+        return match ?? this.invalid(name, `one of ${allowed.join(', ')}`, fallback);
+    }
+
+    private value(name: string): unknown {
+        const value = this.data[pascalCase(name)] ?? this.data[name];
+        return value === null ? undefined : value;
+    }
+
+    private invalid<T>(name: string, expected: string, fallback: T): T {
+        this.errors.push(`${pascalCase(name)} should be ${expected}`);
+        return fallback;
+    }
+}
+
+const payloadDecoders: { [T in EventType]: (reader: PayloadReader) => EventPayloads[T] } = {
+    'step.started': (r) => ({
+        attemptNumber: r.number('attemptNumber', 1),
+        additionalData: r.record('additionalData'),
+    }),
+    'step.completed': (r) => ({
+        success: r.boolean('success'),
+        durationMs: r.duration('duration'),
+        errorMessage: r.optionalString('errorMessage'),
+        additionalData: r.record('additionalData'),
+    }),
+    'step.progress': (r) => ({
+        progressType: r.optionalString('progressType') ?? r.string('eventType'),
+        message: r.string('message'),
+        currentProgress: r.optionalNumber('currentProgress'),
+        totalProgress: r.optionalNumber('totalProgress'),
+        metadata: r.record('metadata'),
+    }),
+    'step.validation': (r) => ({
+        isValid: r.boolean('isValid'),
+        validationError: r.optionalString('validationError'),
+        validationType: r.oneOf('validationType', ['structural', 'semantic'], 'structural'),
+        attemptNumber: r.number('attemptNumber', 1),
+    }),
+    'step.routing': (r) => ({
+        selectedRoute: r.string('selectedRoute'),
+        routingReason: r.string('routingReason', ''),
+    }),
+    'pipeline.started': (r) => ({
+        pipelineName: r.string('pipelineName'),
+        totalSteps: r.number('totalSteps', 0),
+    }),
+    'pipeline.completed': (r) => ({
+        pipelineName: r.string('pipelineName'),
+        success: r.boolean('success'),
+        cancelled: r.boolean('cancelled', false),
+        durationMs: r.duration('duration'),
+        errorMessage: r.optionalString('errorMessage'),
+    }),
+    'llm.response': (r) => ({
+        content: r.string('content'),
+        finishReason: r.oneOf('finishReason', FINISH_REASONS, 'Streaming'),
+        rawFinishReason: r.optionalString('rawFinishReason'),
+        isThinking: r.boolean('isThinking', false),
+        tokensUsed: r.number('tokensUsed', 0),
+        model: r.optionalString('model'),
+        provider: r.optionalString('provider'),
+    }),
+    'tool.started': (r) => ({
+        toolName: r.string('toolName'),
+        additionalData: r.record('additionalData'),
+    }),
+    'tool.completed': (r) => ({
+        toolName: r.string('toolName'),
+        success: r.boolean('success'),
+        durationMs: r.duration('duration'),
+        errorMessage: r.optionalString('errorMessage'),
+        additionalData: r.record('additionalData'),
+    }),
+    'tag.started': (r) => ({
+        tagName: r.string('tagName'),
+        attributes: stringValues(r.record('attributes')),
+        additionalData: r.record('additionalData'),
+    }),
+    'tag.completed': (r) => ({
+        tagName: r.string('tagName'),
+        success: r.boolean('success', true),
+        durationMs: r.duration('duration'),
+        errorMessage: r.optionalString('errorMessage'),
+        additionalData: r.record('additionalData'),
+    }),
+    'context.snapshot': (r) => ({
+        stepResults: r.record('stepResults') ?? {},
+        metadata: r.record('metadata') ?? {},
+        currentPath: r.string('currentPath', ''),
+    }),
+};
+
+/**
+ * Decodes an event as received from the backend (or a recording) into the typed
+ * SseEvent union. Payload fields are read in either casing and normalized to
+ * camelCase, so decoding an already decoded event (e.g. from a recording) is a
+ * no-op. StepProgressEvents, whose eventType is free-form, become step.progress.
+ * Anything else unexpected is reported instead of passed on.
+ */
+export function decodeEvent(raw: unknown): DecodeResult {
+    if (!isRecord(raw)) {
+        return { ok: false, error: 'Event is not an object' };
+    }
+
+    if (raw.type === 'log') {
+        return decodeLogEvent(raw);
+    }
+    if (raw.type !== 'pipeline') {
+        return { ok: false, error: `Unknown event type: ${String(raw.type)}` };
+    }
+
+    const { eventType, stepName, correlationId, timestamp, data } = raw;
+    if (typeof eventType !== 'string') return { ok: false, error: 'eventType should be a string' };
+    if (typeof stepName !== 'string') return { ok: false, error: `${eventType}: stepName should be a string` };
+    if (typeof timestamp !== 'string') return { ok: false, error: `${eventType}: timestamp should be a string` };
+    if (correlationId !== undefined && correlationId !== null && typeof correlationId !== 'string') {
+        return { ok: false, error: `${eventType}: correlationId should be a string` };
+    }
+    if (!isRecord(data)) return { ok: false, error: `${eventType}: data should be an object` };
+
+    const kind = resolveEventType(eventType, data);
+    if (!kind) {
+        return { ok: false, error: `Unknown pipeline event: ${eventType}` };
+    }
+
+    const reader = new PayloadReader(data);
+    const payload = payloadDecoders[kind](reader);
+    if (reader.errors.length > 0) {
+        return { ok: false, error: `${eventType}: ${reader.errors.join('; ')}` };
+    }
+
+    // The mapped decoder table guarantees the payload matches kind
+    const event = { type: 'pipeline', eventType: kind, stepName, correlationId: correlationId ?? '', timestamp, data: payload } as PipelineEvent;
+    return { ok: true, event };
+}
+
+function decodeLogEvent(raw: Record<string, unknown>): DecodeResult {
+    const { level, timestamp, message, properties } = raw;
+    if (!LOG_LEVELS.includes(level as LogEvent['level'])) {
+        return { ok: false, error: `log: unknown level ${String(level)}` };
+    }
+    if (typeof timestamp !== 'string') return { ok: false, error: 'log: timestamp should be a string' };
+    if (typeof message !== 'string') return { ok: false, error: 'log: message should be a string' };
+    if (properties !== undefined && !isRecord(properties)) return { ok: false, error: 'log: properties should be an object' };
+
+    return {
+        ok: true,
+        event: {
+            type: 'log',
+            level: level as LogEvent['level'],
+            timestamp,
+            message,
+            properties: stringValues(properties),
+        },
+    };
+}
+
+function resolveEventType(eventType: string, data: Record<string, unknown>): EventType | undefined {
+    if (eventType in payloadDecoders) {
+        return eventType as EventType;
+    }
+    const message = data.Message ?? data.message;
+    return typeof message === 'string' ? 'step.progress' : undefined;
+}
+
+function stringValues(record: Record<string, unknown> | undefined): Record<string, string> {
+    return Object.fromEntries(Object.entries(record ?? {}).map(([key, value]) => [key, String(value)]));
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pascalCase(name: string): string {
+    return name.charAt(0).toUpperCase() + name.slice(1);
+}
@@ -0,0 +1,136 @@
+import { EventFilter, EventFilterPreset, LogLevel, SseEvent } from '../types';
+import { logCorrelationId } from './runRegistry';
+
+const STORAGE_KEY = 'pipeline-visualizer.event-filter-presets';
+
+export const LOG_LEVELS: LogLevel[] = ['Debug', 'Information', 'Warning', 'Error', 'Fatal'];
+
+export const EMPTY_FILTER: EventFilter = {
+    levels: [],
+    eventTypes: [],
+    steps: [],
+    correlationIds: [],
+    search: '',
+    regex: false,
+};
+
+/**
+ * Presets offered even when nothing has been saved.
+ */
+export const BUILT_IN_PRESETS: EventFilterPreset[] = [
+    { name: 'Hide debug logs', filter: { ...EMPTY_FILTER, levels: ['Information', 'Warning', 'Error', 'Fatal'] } },
+    { name: 'Pipeline events only', filter: { ...EMPTY_FILTER, eventTypes: ['step.started', 'step.completed', 'step.routing', 'step.validation', 'pipeline.started', 'pipeline.completed'] } },
+    { name: 'Problems', filter: { ...EMPTY_FILTER, levels: ['Warning', 'Error', 'Fatal'], eventTypes: ['log'] } },
+];
+
+/**
+ * Local persistence for user-saved filter presets.
+ */
+export const filterPresetStore = {
+    load(): EventFilterPreset[] {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored ? JSON.parse(stored) as EventFilterPreset[] : [];
+        } catch {
+            return [];
+        }
+    },
+
+    save(presets: EventFilterPreset[]): void {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    },
+};
+
+export interface SearchMatcher {
+    /** Global, case-insensitive pattern; undefined when there is no search. */
+    pattern?: RegExp;
+    error?: string;
+}
+
+/**
+ * Compiles the search text, as a regular expression or as a literal.
+ * An invalid expression reports its error and matches nothing.
+ */
+export function createSearchMatcher(search: string, regex: boolean): SearchMatcher {
+    if (!search) return {};
+
+    try {
+        const source = regex ? search : search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        return { pattern: new RegExp(source, 'gi') };
+    } catch (err) {
+        return { error: err instanceof Error ? err.message : 'Invalid expression' };
+    }
+}
+
+/**
+ * Splits text into plain and matched segments for highlighting.
+ */
+export function splitMatches(text: string, pattern?: RegExp): { text: string; match: boolean }[] {
+    if (!pattern) return [{ text, match: false }];
+
+    const segments: { text: string; match: boolean }[] = [];
+    let last = 0;
+    for (const found of text.matchAll(pattern)) {
+        // Zero-length matches (e.g. "a*") have nothing to highlight
+        if (found[0].length === 0) continue;
+        const start = found.index ?? 0;
+        if (start > last) segments.push({ text: text.substring(last, start), match: false });
+        segments.push({ text: found[0], match: true });
+        last = start + found[0].length;
+    }
+    if (last < text.length) segments.push({ text: text.substring(last), match: false });
+    return segments;
+}
+
+export function eventStepName(event: SseEvent): string | undefined {
+    if (event.type === 'pipeline') return event.stepName || undefined;
+    const raw = event.properties?.StepName;
+    return raw ? raw.replace(/^"|"$/g, '') : undefined;
+}
+
+export function eventCorrelationId(event: SseEvent): string | undefined {
+    return event.type === 'pipeline' ? event.correlationId || undefined : logCorrelationId(event);
+}
+
+/**
+ * Text searched for an event: the message of a log, or the type, step and
+ * serialized data of a pipeline event.
+ */
+function searchableText(event: SseEvent): string {
+    return event.type === 'log'
+        ? `${event.message} ${JSON.stringify(event.properties ?? {})}`
+        : `${event.eventType} ${event.stepName} ${JSON.stringify(event.data ?? {})}`;
+}
+
+export function matchesFilter(event: SseEvent, filter: EventFilter, matcher: SearchMatcher): boolean {
+    const eventType = event.type === 'log' ? 'log' : event.eventType;
+    if (filter.eventTypes.length > 0 && !filter.eventTypes.includes(eventType)) return false;
+    if (event.type === 'log' && filter.levels.length > 0 && !filter.levels.includes(event.level)) return false;
+
+    if (filter.steps.length > 0) {
+        const step = eventStepName(event);
+        if (!step || !filter.steps.includes(step)) return false;
+    }
+
+    if (filter.correlationIds.length > 0) {
+        const correlationId = eventCorrelationId(event);
+        if (!correlationId || !filter.correlationIds.includes(correlationId)) return false;
+    }
+
+    if (matcher.error) return false;
+    if (matcher.pattern) {
+        // Reset the global pattern's position before each independent test
+        matcher.pattern.lastIndex = 0;
+        return matcher.pattern.test(searchableText(event));
+    }
+
+    return true;
+}
+
+export function isFilterActive(filter: EventFilter): boolean {
+    return filter.levels.length > 0
+        || filter.eventTypes.length > 0
+        || filter.steps.length > 0
+        || filter.correlationIds.length > 0
+        || filter.search.length > 0;
+}
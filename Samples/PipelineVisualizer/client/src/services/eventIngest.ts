@@ -0,0 +1,156 @@
+import { EventTransport, TransportKind } from '../types';
+import { createTransport, readTransportConfig } from './eventTransport';
+import { EventBatch, EventBatcher, IngestConfig, IngestMessage } from './eventBatcher';
+import { eventSpill } from './eventSpill';
+
+const DEFAULT_BUFFER_SIZE = 20000;
+
+/** Background tabs get no animation frames; batches still drain, just less often. */
+const HIDDEN_FLUSH_INTERVAL = 250;
+
+/** Spilled events outlive reconnects and remounts; they are cleared once per page load. */
+let spillCleared: Promise<void> | null = null;
+
+function clearSpillOnce(): Promise<void> {
+    spillCleared ??= eventSpill.clear()
+        .catch((error) => console.error('[ingest] Failed to clear spilled events:', error));
+    return spillCleared;
+}
+
+/**
+ * Adds buffering to the transport config: ?buffer= or VITE_EVENT_BUFFER sets
+ * how many events are kept in memory, ?spill=true or VITE_EVENT_SPILL turns on
+ * the IndexedDB copy.
+ */
+export function readIngestConfig(baseUrl: string): IngestConfig {
+    const query = new URLSearchParams(window.location.search);
+    const bufferSize = Number(query.get('buffer') ?? import.meta.env.VITE_EVENT_BUFFER);
+
+    return {
+        transport: readTransportConfig(baseUrl),
+        bufferSize: bufferSize > 0 ? bufferSize : DEFAULT_BUFFER_SIZE,
+        spill: (query.get('spill') ?? import.meta.env.VITE_EVENT_SPILL) === 'true',
+    };
+}
+
+export interface IngestHandlers {
+    onBatch: (batch: EventBatch) => void;
+    onConnection: (connected: boolean) => void;
+}
+
+/**
+ * Live event ingestion. The transport runs in a Web Worker, so parsing and
+ * decoding stay off the main thread; without worker support it runs here.
+ * Whatever arrives is handed to onBatch at most once per animation frame.
+ */
+export class EventIngest {
+    readonly kind: TransportKind;
+    private readonly config: IngestConfig;
+    private readonly handlers: IngestHandlers;
+    private readonly pending: EventBatcher;
+    private worker: Worker | null = null;
+    private transport: EventTransport | null = null;
+    private cancelFlush: (() => void) | null = null;
+    /** Bumped on every disconnect so a connect still waiting for the spill does not start. */
+    private generation = 0;
+
+    constructor(config: IngestConfig, handlers: IngestHandlers) {
+        this.kind = config.transport.kind;
+        this.config = config;
+        this.handlers = handlers;
+        this.pending = new EventBatcher(() => this.scheduleFlush());
+    }
+
+    connect(): void {
+        this.disconnect();
+        const generation = this.generation;
+
+        // The first connect of the page waits until the previous page's events are cleared
+        const ready = this.config.spill ? clearSpillOnce() : Promise.resolve();
+        void ready.then(() => {
+            if (generation === this.generation) this.start();
+        });
+    }
+
+    reconnect(): void {
+        this.worker?.postMessage({ type: 'reconnect' });
+        this.transport?.reconnect();
+    }
+
+    disconnect(): void {
+        this.generation++;
+        this.stopWorker();
+        this.transport?.disconnect();
+        this.transport = null;
+        this.cancelFlush?.();
+        this.cancelFlush = null;
+        this.pending.take();
+    }
+
+    private start(): void {
+        if (typeof Worker === 'undefined') {
+            this.connectInThread();
+            return;
+        }
+
+        const worker = new Worker(new URL('../workers/eventStream.worker.ts', import.meta.url), { type: 'module' });
+        this.worker = worker;
+        worker.onmessage = ({ data: message }: MessageEvent<IngestMessage>) => {
+            switch (message.type) {
+                case 'batch':
+                    this.pending.add(message.batch);
+                    break;
+                case 'connection':
+                    this.handlers.onConnection(message.connected);
+                    break;
+                case 'unsupported':
+                    console.warn(`[ingest] ${this.kind} is not available in workers, using the main thread`);
+                    this.stopWorker();
+                    this.connectInThread();
+                    break;
+            }
+        };
+        worker.onerror = (error) => console.error('[ingest] Worker error:', error);
+        worker.postMessage({ type: 'connect', config: this.config });
+    }
+
+    private connectInThread(): void {
+        this.transport = createTransport(this.config.transport, {
+            ...this.pending.handlers,
+            onConnection: this.handlers.onConnection,
+        });
+        this.transport.connect();
+    }
+
+    private stopWorker(): void {
+        if (!this.worker) return;
+        this.worker.postMessage({ type: 'disconnect' });
+        this.worker.terminate();
+        this.worker = null;
+        this.handlers.onConnection(false);
+    }
+
+    private scheduleFlush(): void {
+        if (this.cancelFlush) return;
+
+        if (document.hidden) {
+            const timer = setTimeout(() => this.flush(), HIDDEN_FLUSH_INTERVAL);
+            this.cancelFlush = () => clearTimeout(timer);
+        } else {
+            const frame = requestAnimationFrame(() => this.flush());
+            this.cancelFlush = () => cancelAnimationFrame(frame);
+        }
+    }
+
+    private flush(): void {
+        this.cancelFlush = null;
+        if (this.pending.isEmpty) return;
+
+        const batch = this.pending.take();
+        // The worker spills on its side
+        if (!this.worker && this.config.spill && batch.events.length > 0) {
+            eventSpill.append(batch.events).catch((error) => console.error('[ingest] Failed to spill events:', error));
+        }
+        this.handlers.onBatch(batch);
+    }
+}
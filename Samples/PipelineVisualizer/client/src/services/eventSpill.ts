@@ -0,0 +1,78 @@
+import { SseEvent } from '../types';
+import { logCorrelationId } from './runRegistry';
+
+// Kept apart from the conversations database: it is a cache, emptied on every page load
+const DB_NAME = 'pipeline-visualizer-events';
+const DB_VERSION = 1;
+const STORE = 'events';
+const CORRELATION_INDEX = 'correlationId';
+
+interface SpilledEvent {
+    seq?: number;
+    correlationId: string;
+    event: SseEvent;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    database ??= new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+            store.createIndex(CORRELATION_INDEX, CORRELATION_INDEX);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            database = null;
+            reject(request.error);
+        };
+    });
+    return database;
+}
+
+/**
+ * Write-through copy of the event stream in IndexedDB, so a run whose events
+ * overflowed the in-memory buffer can still be exported in full. Events are
+ * indexed by correlationId; log events without one are not kept.
+ */
+export const eventSpill = {
+    async append(events: SseEvent[]): Promise<void> {
+        const entries: SpilledEvent[] = [];
+        for (const event of events) {
+            const correlationId = event.type === 'pipeline' ? event.correlationId : logCorrelationId(event);
+            if (correlationId) entries.push({ correlationId, event });
+        }
+        if (entries.length === 0) return;
+
+        const db = await openDatabase();
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(STORE, 'readwrite');
+            const store = transaction.objectStore(STORE);
+            entries.forEach(entry => store.add(entry));
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+        });
+    },
+
+    /** Every spilled event of a run, in arrival order. */
+    async load(correlationId: string): Promise<SseEvent[]> {
+        const db = await openDatabase();
+        const entries = await new Promise<SpilledEvent[]>((resolve, reject) => {
+            const request = db.transaction(STORE, 'readonly').objectStore(STORE)
+                .index(CORRELATION_INDEX).getAll(correlationId);
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        return entries.sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0)).map(entry => entry.event);
+    },
+
+    async clear(): Promise<void> {
+        const db = await openDatabase();
+        await new Promise<void>((resolve, reject) => {
+            const request = db.transaction(STORE, 'readwrite').objectStore(STORE).clear();
+            request.onsuccess = () => resolve();
+            request.onerror = () => reject(request.error);
+        });
+    },
+};
@@ -0,0 +1,53 @@
+import { EventTransport, TransportHandlers, TransportKind } from '../types';
+import { SseClient } from './sseClient';
+import { WebSocketClient } from './webSocketClient';
+import { LongPollClient } from './longPollClient';
+import { RecordingClient } from './recordingClient';
+
+const TRANSPORT_KINDS: TransportKind[] = ['sse', 'websocket', 'long-poll', 'recording'];
+
+export interface TransportConfig {
+    kind: TransportKind;
+    baseUrl: string;
+    /** URL of the NDJSON session recording played by the 'recording' transport. */
+    recordingUrl?: string;
+}
+
+/**
+ * Reads the transport from the page URL (?transport=long-poll) or else from
+ * VITE_EVENT_TRANSPORT, defaulting to SSE. The recording transport takes its
+ * file from ?recording= or VITE_EVENT_RECORDING; without one it falls back to SSE.
+ */
+export function readTransportConfig(baseUrl: string): TransportConfig {
+    const query = new URLSearchParams(window.location.search);
+    const requested = query.get('transport') ?? import.meta.env.VITE_EVENT_TRANSPORT ?? 'sse';
+
+    let kind: TransportKind = 'sse';
+    if (TRANSPORT_KINDS.includes(requested as TransportKind)) {
+        kind = requested as TransportKind;
+    } else {
+        console.warn(`Unknown event transport "${requested}", using SSE`);
+    }
+
+    const recordingUrl = query.get('recording') ?? import.meta.env.VITE_EVENT_RECORDING;
+    if (kind === 'recording' && !recordingUrl) {
+        console.error('The recording transport needs ?recording= or VITE_EVENT_RECORDING, using SSE');
+        kind = 'sse';
+    }
+
+    return { kind, baseUrl, recordingUrl };
+}
+
+export function createTransport(config: TransportConfig, handlers: TransportHandlers): EventTransport {
+    switch (config.kind) {
+        case 'sse':
+            return new SseClient(config.baseUrl, handlers);
+        case 'websocket':
+            return new WebSocketClient(config.baseUrl, handlers);
+        case 'long-poll':
+            return new LongPollClient(config.baseUrl, handlers);
+        case 'recording':
+            if (!config.recordingUrl) throw new Error('The recording transport needs a recording URL');
+            return new RecordingClient(config.recordingUrl, handlers);
+    }
+}
@@ -0,0 +1,108 @@
+import { FoldOverrides, FoldSummary, PipelineStep } from '../types';
+import { childSteps, isGroupStep, isParallelStep, subtreeStepNames } from '../utils/pipelineSteps';
+
+const STORAGE_KEY = 'pipeline-visualizer.graph-folds';
+
+/**
+ * Local persistence for the graph folds, per pipeline name.
+ */
+export const foldStore = {
+    load(pipelineName: string): FoldOverrides {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            const all = stored ? JSON.parse(stored) as Record<string, FoldOverrides> : {};
+            return all[pipelineName] ?? {};
+        } catch {
+            return {};
+        }
+    },
+
+    save(pipelineName: string, overrides: FoldOverrides): void {
+        let all: Record<string, FoldOverrides> = {};
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            if (stored) all = JSON.parse(stored) as Record<string, FoldOverrides>;
+        } catch {
+            // A corrupt entry is replaced
+        }
+        if (Object.keys(overrides).length > 0) {
+            all[pipelineName] = overrides;
+        } else {
+            delete all[pipelineName];
+        }
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    },
+};
+
+/**
+ * Steps that can collapse into one summary node: groups, parallel steps,
+ * and the first step of a route when the route holds more than that step.
+ */
+export function findFoldableSteps(steps: PipelineStep[]): PipelineStep[] {
+    const foldable: PipelineStep[] = [];
+
+    const visit = (step: PipelineStep, isRoute: boolean) => {
+        if (isGroupStep(step) || isParallelStep(step) || (isRoute && subtreeStepNames(step).length > 1)) {
+            foldable.push(step);
+        }
+        childSteps(step).forEach(child => visit(child, !!step.routes));
+    };
+
+    steps.forEach(step => visit(step, false));
+    return foldable;
+}
+
+/**
+ * Names of the collapsed steps: the user's folds where set, else the default,
+ * which collapses untaken routes. Only foldable steps are returned.
+ */
+export function resolveCollapsed(foldable: PipelineStep[], overrides: FoldOverrides, untakenRoutes: string[]): Set<string> {
+    const collapsedByDefault = new Set(untakenRoutes);
+    return new Set(
+        foldable
+            .map(step => step.name)
+            .filter(name => overrides[name] ?? collapsedByDefault.has(name))
+    );
+}
+
+/**
+ * Steps hidden inside collapsed steps; the collapsed steps themselves stay visible as summaries.
+ */
+export function findHiddenSteps(steps: PipelineStep[], collapsed: Set<string>): Set<string> {
+    const hidden = new Set<string>();
+
+    const visit = (step: PipelineStep) => {
+        if (collapsed.has(step.name)) {
+            childSteps(step).flatMap(subtreeStepNames).forEach(name => hidden.add(name));
+            return;
+        }
+        childSteps(step).forEach(visit);
+    };
+
+    steps.forEach(visit);
+    return hidden;
+}
+
+/**
+ * Status counts over the working steps of a subgraph; groups and parallel steps
+ * only contain others, so they are not counted.
+ */
+export function summarizeFold(
+    step: PipelineStep,
+    activeSteps: string[],
+    completedSteps: string[],
+    failedSteps: string[]
+): FoldSummary {
+    const working = workingStepNames(step);
+    return {
+        steps: working.length,
+        running: working.filter(name => activeSteps.includes(name)).length,
+        done: working.filter(name => completedSteps.includes(name) && !failedSteps.includes(name)).length,
+        failed: working.filter(name => failedSteps.includes(name)).length,
+    };
+}
+
+function workingStepNames(step: PipelineStep): string[] {
+    const own = isGroupStep(step) || isParallelStep(step) ? [] : [step.name];
+    return [...own, ...childSteps(step).flatMap(workingStepNames)];
+}
@@ -0,0 +1,263 @@
+import { PipelineDefinition, PipelineStep } from '../types';
+import { isGroupStep, isParallelStep } from '../utils/pipelineSteps';
+
+/** A laid-out node as drawn in an exported image; coordinates are absolute. */
+export interface ExportNode {
+    id: string;
+    label: string;
+    /** Second line, e.g. the step type or a fold summary. */
+    detail?: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    fill: string;
+    stroke: string;
+    dashed?: boolean;
+    opacity?: number;
+    /** Containers are drawn behind the other nodes with their label at the top. */
+    container?: boolean;
+}
+
+export interface ExportEdge {
+    source: string;
+    target: string;
+    label?: string;
+    stroke: string;
+    strokeWidth: number;
+    dashArray?: string;
+    opacity?: number;
+}
+
+/** Definition tree flattened for the text formats: parallel steps become clusters. */
+interface Diagram {
+    nodes: { id: string; label: string; cluster?: string; shape: 'step' | 'router' | 'input' }[];
+    clusters: { id: string; label: string; parent?: string }[];
+    edges: { from: string; to: string; label?: string }[];
+}
+
+const INPUT_ID = 'input';
+
+/**
+ * Walks the definition like the compact graph: groups are unwrapped, parallel
+ * steps hold their branches as a cluster, and router routes are labelled edges.
+ */
+function buildDiagram(definition: PipelineDefinition): Diagram {
+    const diagram: Diagram = { nodes: [{ id: INPUT_ID, label: 'User Input', shape: 'input' }], clusters: [], edges: [] };
+    const ids = new Map<string, string>();
+    const idOf = (name: string) => {
+        if (!ids.has(name)) ids.set(name, `s${ids.size}`);
+        return ids.get(name)!;
+    };
+
+    const connect = (incoming: string[], to: string, label?: string) => {
+        incoming.forEach(from => diagram.edges.push({ from, to, label }));
+    };
+
+    const visit = (step: PipelineStep, incoming: string[], cluster: string | undefined, label?: string): string[] => {
+        if (isGroupStep(step)) {
+            let tails = incoming;
+            step.steps!.forEach((child, index) => {
+                tails = visit(child, tails, cluster, index === 0 ? label : undefined);
+            });
+            return tails;
+        }
+
+        if (isParallelStep(step) && step.steps) {
+            const id = idOf(step.name);
+            diagram.clusters.push({ id, label: step.name, parent: cluster });
+            return step.steps.flatMap(child => visit(child, incoming, id, label));
+        }
+
+        const id = idOf(step.name);
+        diagram.nodes.push({ id, label: step.name, cluster, shape: step.routes ? 'router' : 'step' });
+        connect(incoming, id, label);
+
+        if (step.routes) {
+            return Object.entries(step.routes).flatMap(([routeName, routeStep]) => visit(routeStep, [id], cluster, routeName));
+        }
+        return [id];
+    };
+
+    let tails = [INPUT_ID];
+    definition.pipeline.forEach(step => {
+        tails = visit(step, tails, undefined);
+    });
+    return diagram;
+}
+
+/**
+ * Mermaid flowchart of the definition.
+ */
+export function toMermaid(definition: PipelineDefinition): string {
+    const diagram = buildDiagram(definition);
+    const text = (value: string) => `"${value.replace(/"/g, '#quot;')}"`;
+    const lines = ['flowchart LR'];
+
+    const nodeLine = (node: Diagram['nodes'][number]) => node.shape === 'router'
+        ? `${node.id}{${text(node.label)}}`
+        : node.shape === 'input' ? `${node.id}([${text(node.label)}])` : `${node.id}[${text(node.label)}]`;
+
+    const writeCluster = (cluster: string | undefined, indent: string) => {
+        diagram.nodes.filter(node => node.cluster === cluster).forEach(node => lines.push(indent + nodeLine(node)));
+        diagram.clusters.filter(child => child.parent === cluster).forEach(child => {
+            lines.push(`${indent}subgraph ${child.id} [${text(child.label)}]`);
+            writeCluster(child.id, indent + '    ');
+            lines.push(`${indent}end`);
+        });
+    };
+
+    writeCluster(undefined, '    ');
+    diagram.edges.forEach(edge => {
+        lines.push(edge.label
+            ? `    ${edge.from} -->|${text(edge.label)}| ${edge.to}`
+            : `    ${edge.from} --> ${edge.to}`);
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Graphviz DOT digraph of the definition.
+ */
+export function toDot(definition: PipelineDefinition): string {
+    const diagram = buildDiagram(definition);
+    const text = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+    const lines = [
+        `digraph ${text(definition.name)} {`,
+        '    rankdir=LR;',
+        '    node [shape=box, style=rounded, fontname="Helvetica"];',
+        '    edge [fontname="Helvetica", fontsize=10];',
+    ];
+
+    const nodeLine = (node: Diagram['nodes'][number]) => node.shape === 'router'
+        ? `${node.id} [label=${text(node.label)}, shape=diamond, style=""];`
+        : node.shape === 'input' ? `${node.id} [label=${text(node.label)}, shape=oval, style=""];` : `${node.id} [label=${text(node.label)}];`;
+
+    const writeCluster = (cluster: string | undefined, indent: string) => {
+        diagram.nodes.filter(node => node.cluster === cluster).forEach(node => lines.push(indent + nodeLine(node)));
+        diagram.clusters.filter(child => child.parent === cluster).forEach(child => {
+            lines.push(`${indent}subgraph cluster_${child.id} {`);
+            lines.push(`${indent}    label=${text(child.label)};`);
+            lines.push(`${indent}    style=dashed;`);
+            writeCluster(child.id, indent + '    ');
+            lines.push(`${indent}}`);
+        });
+    };
+
+    writeCluster(undefined, '    ');
+    diagram.edges.forEach(edge => {
+        lines.push(`    ${edge.from} -> ${edge.to}${edge.label ? ` [label=${text(edge.label)}]` : ''};`);
+    });
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * SVG image of a laid-out graph. Edges run from the source's right side to the
+ * target's left side, or from bottom to top when vertical, like the graph's handles.
+ */
+export function renderSvg(nodes: ExportNode[], edges: ExportEdge[], vertical: boolean): string {
+    // Leaves room for the retry loops drawn above their nodes
+    const margin = 48;
+    const minX = Math.min(...nodes.map(node => node.x)) - margin;
+    const minY = Math.min(...nodes.map(node => node.y)) - margin;
+    const width = Math.max(...nodes.map(node => node.x + node.width)) - minX + margin;
+    const height = Math.max(...nodes.map(node => node.y + node.height)) - minY + margin;
+    const byId = new Map(nodes.map(node => [node.id, node]));
+
+    const edgeElements = edges.flatMap(edge => {
+        const source = byId.get(edge.source);
+        const target = byId.get(edge.target);
+        if (!source || !target) return [];
+
+        const style = `fill="none" stroke="${edge.stroke}" stroke-width="${edge.strokeWidth}"`
+            + (edge.dashArray ? ` stroke-dasharray="${edge.dashArray}"` : '')
+            + (edge.opacity !== undefined ? ` opacity="${edge.opacity}"` : '');
+
+        if (source === target) {
+            // Retry loop over the node's top edge
+            const left = Math.round(source.x + source.width * 0.3);
+            const right = Math.round(source.x + source.width * 0.7);
+            return [`<path d="M ${left} ${source.y} C ${left} ${source.y - 40}, ${right} ${source.y - 40}, ${right} ${source.y}" ${style} marker-end="url(#arrow)"/>`];
+        }
+
+        const [x1, y1, x2, y2] = vertical
+            ? [source.x + source.width / 2, source.y + source.height, target.x + target.width / 2, target.y]
+            : [source.x + source.width, source.y + source.height / 2, target.x, target.y + target.height / 2];
+        const path = vertical
+            ? `M ${x1} ${y1} C ${x1} ${(y1 + y2) / 2}, ${x2} ${(y1 + y2) / 2}, ${x2} ${y2}`
+            : `M ${x1} ${y1} C ${(x1 + x2) / 2} ${y1}, ${(x1 + x2) / 2} ${y2}, ${x2} ${y2}`;
+        const label = edge.label
+            ? `<text x="${(x1 + x2) / 2}" y="${(y1 + y2) / 2 - 4}" text-anchor="middle" font-size="10" fill="#475569">${escapeXml(edge.label)}</text>`
+            : '';
+        return [`<path d="${path}" ${style} marker-end="url(#arrow)"/>${label}`];
+    });
+
+    const nodeElement = (node: ExportNode) => {
+        const rect = `<rect x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rx="10" `
+            + `fill="${node.fill}" stroke="${node.stroke}" stroke-width="2"${node.dashed ? ' stroke-dasharray="6 4"' : ''}/>`;
+        const lines = node.container
+            ? [`<text x="${node.x + 12}" y="${node.y + 18}" font-size="12" font-weight="600" fill="#334155">${escapeXml(node.label)}</text>`]
+            : [
+                `<text x="${node.x + node.width / 2}" y="${node.y + (node.detail ? node.height / 2 - 3 : node.height / 2 + 4)}" text-anchor="middle" font-size="13" font-weight="600" fill="#1e293b">${escapeXml(node.label)}</text>`,
+                node.detail ? `<text x="${node.x + node.width / 2}" y="${node.y + node.height / 2 + 13}" text-anchor="middle" font-size="10" fill="#64748b">${escapeXml(node.detail)}</text>` : '',
+            ];
+        return `<g${node.opacity !== undefined ? ` opacity="${node.opacity}"` : ''}>${rect}${lines.join('')}</g>`;
+    };
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${minX} ${minY} ${width} ${height}" font-family="ui-sans-serif, system-ui, sans-serif">`,
+        '<defs><marker id="arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M 0 0 L 10 5 L 0 10 z" fill="#64748b"/></marker></defs>',
+        `<rect x="${minX}" y="${minY}" width="${width}" height="${height}" fill="#f8fafc"/>`,
+        ...nodes.filter(node => node.container).map(nodeElement),
+        ...edgeElements,
+        ...nodes.filter(node => !node.container).map(nodeElement),
+        '</svg>',
+    ].join('\n');
+}
+
+/**
+ * Rasterizes an SVG image at the given scale.
+ */
+export function svgToPng(svg: string, scale = 2): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = image.width * scale;
+            canvas.height = image.height * scale;
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error('Canvas is not available'));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+        };
+        image.onerror = () => reject(new Error('The SVG image could not be loaded'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+}
+
+/**
+ * Triggers a browser download of an export.
+ */
+export function downloadExport(content: Blob | string, fileName: string, type = 'text/plain'): void {
+    const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    anchor.click();
+    URL.revokeObjectURL(url);
+}
+
+/** File name stem for the exports of a pipeline. */
+export function exportFileName(definition: PipelineDefinition): string {
+    return definition.name.replace(/[^\w.-]+/g, '-') || 'pipeline';
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,69 @@
+import { TransportHandlers } from '../types';
+import { ReconnectingTransport } from './reconnectingTransport';
+
+interface PollResponse {
+    streamId: string;
+    /** The id the returned events follow. */
+    lastEventId: number;
+    events: { id: number; event: unknown }[];
+}
+
+/**
+ * HTTP long-poll client for the event stream: each request waits on the server
+ * until events after the cursor exist or the poll timeout passes. Plain JSON
+ * responses get through proxies that buffer streaming responses.
+ */
+export class LongPollClient extends ReconnectingTransport {
+    readonly kind = 'long-poll';
+    private controller: AbortController | null = null;
+    /** Seconds the server holds a request open; below the heartbeat timeout. */
+    private readonly pollTimeout = 25;
+
+    constructor(baseUrl: string, handlers: TransportHandlers) {
+        super(baseUrl, handlers);
+    }
+
+    protected open(): void {
+        const controller = new AbortController();
+        this.controller = controller;
+        void this.poll(controller.signal);
+    }
+
+    protected close(): void {
+        this.controller?.abort();
+        this.controller = null;
+    }
+
+    private async poll(signal: AbortSignal): Promise<void> {
+        let connected = false;
+
+        while (!signal.aborted) {
+            const params = this.resumeParams();
+            params.set('timeout', String(this.pollTimeout));
+            let data: PollResponse;
+            try {
+                const response = await fetch(`${this.baseUrl}/api/events/poll?${params}`, { signal });
+                if (!response.ok) {
+                    throw new Error(`Poll failed: ${response.statusText}`);
+                }
+                data = await response.json();
+            } catch (error) {
+                if (signal.aborted) return;
+                console.error('[long-poll] Request failed:', error);
+                this.failed();
+                return;
+            }
+
+            if (signal.aborted) return;
+            if (!connected) {
+                connected = true;
+                this.opened();
+            }
+
+            this.hello(data.streamId, data.lastEventId);
+            for (const entry of data.events) {
+                this.receive(entry.id, entry.event);
+            }
+        }
+    }
+}
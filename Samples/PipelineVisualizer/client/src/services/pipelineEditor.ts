@@ -0,0 +1,300 @@
+import { DefinitionProblem, PipelineDefinition, PipelineStep, StepTypeInfo } from '../types';
+import { baseTypeName, childSteps, subtreeStepNames } from '../utils/pipelineSteps';
+
+/**
+ * Palette used when the loaded definition carries no stepTypes (the backend
+ * schema endpoint omits them). Mirrors wwwroot/pipeline-definition.json.
+ */
+export const DEFAULT_STEP_TYPES: Record<string, StepTypeInfo> = {
+    IntentionAnalyzerStep: { category: 'llm', description: 'Analyzes user input to determine the intent.', icon: 'BrainCircuit', color: 'bg-purple-500' },
+    IntentionRouterStep: { category: 'control-flow', description: 'Routes execution based on analyzed intention.', icon: 'GitFork', color: 'bg-orange-500' },
+    StatelessTemplateLlmStep: { category: 'llm', description: 'Executes LLM prompt based on a template.', icon: 'MessageSquare', color: 'bg-blue-500' },
+    StatelessRewriterStep: { category: 'llm', description: 'Specialized step for rewriting content.', icon: 'PenTool', color: 'bg-indigo-500' },
+    ParallelStep: { category: 'control-flow', description: 'Executes multiple steps in parallel.', icon: 'Columns', color: 'bg-cyan-500' },
+    GroupStep: { category: 'container', description: 'Logical grouping of sequential steps.', icon: 'Box', color: 'bg-slate-500' },
+    DelegatedStep: { category: 'utility', description: 'Executes C# code logic.', icon: 'Code', color: 'bg-gray-500' },
+};
+
+/** Steps that hold a list of child steps (sequence or parallel branches). */
+export function isContainerType(type: string): boolean {
+    return ['ParallelStep', 'GroupStep'].includes(baseTypeName(type));
+}
+
+export function isRouterType(type: string): boolean {
+    return baseTypeName(type).endsWith('RouterStep');
+}
+
+export function allStepNames(steps: PipelineStep[]): string[] {
+    return steps.flatMap(subtreeStepNames);
+}
+
+/**
+ * First free name of the form "{base}", "{base}2", "{base}3"...
+ */
+export function uniqueStepName(definition: PipelineDefinition, base: string): string {
+    const taken = new Set(allStepNames(definition.pipeline));
+    if (!taken.has(base)) return base;
+    let suffix = 2;
+    while (taken.has(`${base}${suffix}`)) suffix++;
+    return `${base}${suffix}`;
+}
+
+/**
+ * New step of a palette type, with a unique name and the empty children its kind needs.
+ */
+export function createStep(definition: PipelineDefinition, type: string, info?: StepTypeInfo): PipelineStep {
+    const step: PipelineStep = {
+        name: uniqueStepName(definition, baseTypeName(type).replace(/Step$/, '') || 'Step'),
+        type,
+    };
+    if (isContainerType(type)) step.steps = [];
+    if (isRouterType(type)) step.routes = {};
+    if (info?.category === 'llm') step.config = {};
+    return step;
+}
+
+// ========================================
+// Edit operations
+// ========================================
+// Each operation returns a new definition and throws an Error with a
+// user-facing message when the edit is not allowed.
+
+type StepLocation =
+    | { list: PipelineStep[]; index: number }
+    | { router: PipelineStep; route: string };
+
+function locate(list: PipelineStep[], name: string): StepLocation | undefined {
+    for (const [index, step] of list.entries()) {
+        if (step.name === name) return { list, index };
+        const nested = locateInside(step, name);
+        if (nested) return nested;
+    }
+    return undefined;
+}
+
+function locateInside(step: PipelineStep, name: string): StepLocation | undefined {
+    if (step.routes) {
+        for (const [route, target] of Object.entries(step.routes)) {
+            if (target.name === name) return { router: step, route };
+            const nested = locateInside(target, name);
+            if (nested) return nested;
+        }
+    }
+    return step.steps ? locate(step.steps, name) : undefined;
+}
+
+function stepAt(location: StepLocation): PipelineStep {
+    return 'list' in location ? location.list[location.index] : location.router.routes![location.route];
+}
+
+function requireStep(definition: PipelineDefinition, name: string): StepLocation {
+    const location = locate(definition.pipeline, name);
+    if (!location) throw new Error(`Step "${name}" not found`);
+    return location;
+}
+
+/** Child list of a container step, or the top-level sequence for null. */
+function childList(definition: PipelineDefinition, parent: string | null): PipelineStep[] {
+    if (parent === null) return definition.pipeline;
+    const step = stepAt(requireStep(definition, parent));
+    if (!step.steps) throw new Error(`"${parent}" cannot contain steps`);
+    return step.steps;
+}
+
+function requireFreeName(definition: PipelineDefinition, name: string): string {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Step name cannot be empty');
+    if (allStepNames(definition.pipeline).includes(trimmed)) {
+        throw new Error(`A step named "${trimmed}" already exists`);
+    }
+    return trimmed;
+}
+
+export function insertStep(definition: PipelineDefinition, parent: string | null, index: number, step: PipelineStep): PipelineDefinition {
+    const next = structuredClone(definition);
+    allStepNames([step]).forEach(name => requireFreeName(next, name));
+    childList(next, parent).splice(index, 0, step);
+    return next;
+}
+
+export function moveStep(definition: PipelineDefinition, name: string, parent: string | null, index: number): PipelineDefinition {
+    const next = structuredClone(definition);
+    const location = requireStep(next, name);
+    if (!('list' in location)) {
+        throw new Error(`"${name}" is the target of route "${location.route}"; move the steps inside it instead`);
+    }
+    if (parent !== null && subtreeStepNames(location.list[location.index]).includes(parent)) {
+        throw new Error(`"${name}" cannot be moved into itself`);
+    }
+
+    const target = childList(next, parent);
+    const [step] = location.list.splice(location.index, 1);
+    // Removing the step shifts later positions in the same list
+    const adjusted = target === location.list && location.index < index ? index - 1 : index;
+    target.splice(adjusted, 0, step);
+    return next;
+}
+
+/** Removes a step with everything inside it; removing a route target removes the route. */
+export function removeStep(definition: PipelineDefinition, name: string): PipelineDefinition {
+    const next = structuredClone(definition);
+    const location = requireStep(next, name);
+    if ('list' in location) {
+        location.list.splice(location.index, 1);
+    } else {
+        deleteRoute(location.router, location.route);
+    }
+    return next;
+}
+
+export function renameStep(definition: PipelineDefinition, name: string, newName: string): PipelineDefinition {
+    if (name === newName.trim()) return definition;
+    const next = structuredClone(definition);
+    const step = stepAt(requireStep(next, name));
+    step.name = requireFreeName(next, newName);
+    return next;
+}
+
+/**
+ * Updates type, input/output types, config or default route. Undefined values
+ * and an empty config are removed so the exported JSON stays minimal.
+ */
+export function updateStep(
+    definition: PipelineDefinition,
+    name: string,
+    patch: Partial<Pick<PipelineStep, 'type' | 'inputType' | 'outputType' | 'config' | 'defaultRoute'>>
+): PipelineDefinition {
+    const next = structuredClone(definition);
+    const step = stepAt(requireStep(next, name)) as unknown as Record<string, unknown>;
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === undefined || value === '') {
+            delete step[key];
+        } else {
+            step[key] = value;
+        }
+    }
+    if (step.config && Object.keys(step.config).length === 0) delete step.config;
+    return next;
+}
+
+/**
+ * Adds a route leading to a new, empty group that steps can be dropped into.
+ */
+export function addRoute(definition: PipelineDefinition, routerName: string, route: string): PipelineDefinition {
+    const next = structuredClone(definition);
+    const router = stepAt(requireStep(next, routerName));
+    const routeName = route.trim();
+    if (!router.routes) throw new Error(`"${routerName}" is not a router`);
+    if (!routeName) throw new Error('Route name cannot be empty');
+    if (routeName in router.routes) throw new Error(`Route "${routeName}" already exists`);
+
+    router.routes[routeName] = { name: uniqueStepName(next, `${routeName}Phase`), type: 'GroupStep', steps: [] };
+    return next;
+}
+
+export function renameRoute(definition: PipelineDefinition, routerName: string, route: string, newRoute: string): PipelineDefinition {
+    const routeName = newRoute.trim();
+    if (route === routeName) return definition;
+    const next = structuredClone(definition);
+    const router = stepAt(requireStep(next, routerName));
+    if (!routeName) throw new Error('Route name cannot be empty');
+    if (!router.routes?.[route]) throw new Error(`Route "${route}" not found`);
+    if (routeName in router.routes) throw new Error(`Route "${routeName}" already exists`);
+
+    // Rebuild to keep the route order
+    router.routes = Object.fromEntries(
+        Object.entries(router.routes).map(([key, target]) => [key === route ? routeName : key, target])
+    );
+    if (router.defaultRoute === route) router.defaultRoute = routeName;
+    return next;
+}
+
+export function removeRoute(definition: PipelineDefinition, routerName: string, route: string): PipelineDefinition {
+    const next = structuredClone(definition);
+    deleteRoute(stepAt(requireStep(next, routerName)), route);
+    return next;
+}
+
+function deleteRoute(router: PipelineStep, route: string) {
+    if (router.routes) delete router.routes[route];
+    if (router.defaultRoute === route) delete router.defaultRoute;
+}
+
+// ========================================
+// Validation & export
+// ========================================
+
+export function validateDefinition(definition: PipelineDefinition): DefinitionProblem[] {
+    const problems: DefinitionProblem[] = [];
+    const seen = new Set<string>();
+
+    const visit = (step: PipelineStep) => {
+        if (!step.name.trim()) {
+            problems.push({ message: `A ${baseTypeName(step.type)} has no name` });
+        } else if (seen.has(step.name)) {
+            problems.push({ stepName: step.name, message: `Duplicate step name "${step.name}"` });
+        }
+        seen.add(step.name);
+
+        if (step.steps && step.steps.length === 0) {
+            problems.push({ stepName: step.name, message: `"${step.name}" has no steps` });
+        }
+        if (step.routes) {
+            if (Object.keys(step.routes).length === 0) {
+                problems.push({ stepName: step.name, message: `Router "${step.name}" has no routes` });
+            }
+            if (step.defaultRoute && !(step.defaultRoute in step.routes)) {
+                problems.push({ stepName: step.name, message: `Default route "${step.defaultRoute}" of "${step.name}" does not exist` });
+            }
+        }
+        childSteps(step).forEach(visit);
+    };
+
+    definition.pipeline.forEach(visit);
+    if (definition.pipeline.length === 0) {
+        problems.push({ message: 'The pipeline has no steps' });
+    }
+    return problems;
+}
+
+/**
+ * Serializes in the shape of wwwroot/pipeline-definition.json. Type names lose
+ * their generic arity suffix ("ParallelStep`1" → "ParallelStep").
+ */
+export function exportDefinition(definition: PipelineDefinition, stepTypes: Record<string, StepTypeInfo>): string {
+    const exportStep = (step: PipelineStep): PipelineStep => ({
+        name: step.name,
+        type: baseTypeName(step.type),
+        inputType: step.inputType,
+        outputType: step.outputType,
+        config: step.config,
+        defaultRoute: step.defaultRoute,
+        routes: step.routes && Object.fromEntries(
+            Object.entries(step.routes).map(([route, target]) => [route, exportStep(target)])
+        ),
+        steps: step.steps?.map(exportStep),
+    });
+
+    return JSON.stringify({
+        name: definition.name,
+        description: definition.description,
+        version: definition.version,
+        intentions: definition.intentions ?? {},
+        pipeline: definition.pipeline.map(exportStep),
+        stepTypes,
+        profiles: definition.profiles ?? {},
+    }, null, 4);
+}
+
+/**
+ * Triggers a browser download of the exported definition.
+ */
+export function downloadDefinition(definition: PipelineDefinition, stepTypes: Record<string, StepTypeInfo>): void {
+    const blob = new Blob([exportDefinition(definition, stepTypes)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = 'pipeline-definition.json';
+    anchor.click();
+    URL.revokeObjectURL(url);
+}
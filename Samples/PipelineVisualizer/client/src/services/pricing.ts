@@ -0,0 +1,133 @@
+import { ModelPricing, PricingTable, SseEvent, TokenUsage, UsageBucket, UsageSummary } from '../types';
+
+const STORAGE_KEY = 'pipeline-visualizer.pricing';
+
+/**
+ * Reference prices per million tokens, from the framework's PRICING.md.
+ */
+export const DEFAULT_PRICING: PricingTable = {
+    'gemini-2.5-flash': { inputTokenPricePerMillion: 0.075, outputTokenPricePerMillion: 0.30 },
+    'gemini-2.0-flash': { inputTokenPricePerMillion: 0.10, outputTokenPricePerMillion: 0.40 },
+    'gemini-1.5-pro': { inputTokenPricePerMillion: 1.25, outputTokenPricePerMillion: 5.00 },
+    'gpt-4o': { inputTokenPricePerMillion: 5.00, outputTokenPricePerMillion: 15.00 },
+    'gpt-4o-mini': { inputTokenPricePerMillion: 0.15, outputTokenPricePerMillion: 0.60 },
+    'gpt-4-turbo': { inputTokenPricePerMillion: 10.00, outputTokenPricePerMillion: 30.00 },
+    'claude-3.5-sonnet': { inputTokenPricePerMillion: 3.00, outputTokenPricePerMillion: 15.00 },
+    'claude-3-haiku': { inputTokenPricePerMillion: 0.25, outputTokenPricePerMillion: 1.25 },
+    'llama-3.1-8b-instruct': { inputTokenPricePerMillion: 0.20, outputTokenPricePerMillion: 0.20 },
+    'llama-3.1-70b-instruct': { inputTokenPricePerMillion: 0.60, outputTokenPricePerMillion: 0.60 },
+    'deepseek-chat': { inputTokenPricePerMillion: 0.14, outputTokenPricePerMillion: 0.28 },
+    'deepseek-coder': { inputTokenPricePerMillion: 0.14, outputTokenPricePerMillion: 0.28 },
+};
+
+/**
+ * Local persistence for the user-editable pricing table.
+ */
+export const pricingStore = {
+    load(): PricingTable {
+        try {
+            const stored = localStorage.getItem(STORAGE_KEY);
+            return stored ? JSON.parse(stored) as PricingTable : { ...DEFAULT_PRICING };
+        } catch {
+            return { ...DEFAULT_PRICING };
+        }
+    },
+
+    save(table: PricingTable): void {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(table));
+    },
+};
+
+/**
+ * Finds the price for a model: exact name first, then the name without its
+ * vendor prefix (e.g. "meta/llama-3.1-8b-instruct" → "llama-3.1-8b-instruct").
+ */
+export function findPricing(table: PricingTable, model?: string): ModelPricing | undefined {
+    if (!model) return undefined;
+    return table[model] ?? table[model.substring(model.lastIndexOf('/') + 1)];
+}
+
+/**
+ * llm.response only reports total tokens, so cost is estimated at the mean
+ * of the input and output prices.
+ */
+export function estimateCost(tokens: number, pricing: ModelPricing): number {
+    const blended = (pricing.inputTokenPricePerMillion + pricing.outputTokenPricePerMillion) / 2;
+    return tokens / 1_000_000 * blended;
+}
+
+/**
+ * Sums the tokens of llm.response events per step and model. Streaming chunks
+ * report no tokens; the closing event of each call carries the total.
+ */
+export function collectTokenUsage(events: SseEvent[]): TokenUsage[] {
+    return applyUsageEvents([], events);
+}
+
+/**
+ * Adds a batch of events to the usage collected so far, copying only what changed.
+ */
+export function applyUsageEvents(usage: TokenUsage[], events: SseEvent[]): TokenUsage[] {
+    let next = usage;
+    const copied = new Set<TokenUsage>();
+
+    for (const event of events) {
+        if (event.type !== 'pipeline' || event.eventType !== 'llm.response') continue;
+
+        const { tokensUsed: tokens, model, provider } = event.data;
+        if (!tokens) continue;
+
+        if (next === usage) next = [...usage];
+        let index = next.findIndex(entry =>
+            entry.stepName === event.stepName && entry.model === model && entry.provider === provider);
+        if (index < 0) {
+            index = next.push({ stepName: event.stepName, model, provider, tokens: 0, calls: 0 }) - 1;
+        }
+        if (!copied.has(next[index])) {
+            next[index] = { ...next[index] };
+            copied.add(next[index]);
+        }
+        next[index].tokens += tokens;
+        next[index].calls += 1;
+    }
+
+    return next;
+}
+
+/**
+ * Totals token usage and estimated cost per step, model and provider.
+ */
+export function summarizeUsage(usage: TokenUsage[], table: PricingTable): UsageSummary {
+    const summary: UsageSummary = { total: emptyBucket(), byStep: {}, byModel: {}, byProvider: {} };
+
+    for (const { stepName, model, provider, tokens, calls } of usage) {
+        const pricing = findPricing(table, model);
+        const cost = pricing ? estimateCost(tokens, pricing) : 0;
+
+        for (const bucket of [
+            summary.total,
+            bucketFor(summary.byStep, stepName),
+            bucketFor(summary.byModel, model ?? 'unknown'),
+            bucketFor(summary.byProvider, provider ?? 'unknown'),
+        ]) {
+            bucket.tokens += tokens;
+            bucket.calls += calls;
+            bucket.cost += cost;
+            bucket.priced = bucket.priced && !!pricing;
+        }
+    }
+
+    return summary;
+}
+
+export function formatCost(cost: number): string {
+    return cost === 0 ? '$0' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function emptyBucket(): UsageBucket {
+    return { tokens: 0, calls: 0, cost: 0, priced: true };
+}
+
+function bucketFor(buckets: Record<string, UsageBucket>, key: string): UsageBucket {
+    return buckets[key] ??= emptyBucket();
+}
@@ -0,0 +1,179 @@
+import { EventTransport, StreamGap, TransportHandlers, TransportKind } from '../types';
+import { decodeEvent } from './eventDecoder';
+
+/**
+ * Connection handling shared by the network transports: reconnects with
+ * backoff, treats a connection that stays silent past the heartbeat timeout as
+ * dead, and tracks event ids so a reconnect resumes after the last received
+ * event. Ids that jump, or a new server stream, are reported as gaps. Events
+ * are decoded here; those that fail go to onDiagnostic.
+ *
+ * Subclasses open and close the underlying connection and report what they
+ * receive through opened(), hello(), heartbeat(), receive() and failed().
+ */
+export abstract class ReconnectingTransport implements EventTransport {
+    abstract readonly kind: TransportKind;
+    protected readonly baseUrl: string;
+    /** Id of the last received event; null before the first one. */
+    protected lastEventId: number | null = null;
+    private readonly handlers: TransportHandlers;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+    private lastTimestamp: string | undefined;
+    private streamId: string | null = null;
+    private active = false;
+    private readonly baseDelay = 1000;
+    private readonly maxDelay = 30000;
+    /** Three missed 15 s server heartbeats. */
+    private readonly heartbeatTimeout = 45000;
+
+    constructor(baseUrl: string, handlers: TransportHandlers) {
+        this.baseUrl = baseUrl;
+        this.handlers = handlers;
+    }
+
+    /** Opens the underlying connection, resuming with resumeParams(). */
+    protected abstract open(): void;
+
+    /** Closes the underlying connection without reporting anything. */
+    protected abstract close(): void;
+
+    connect(): void {
+        this.stop();
+        this.active = true;
+        this.open();
+    }
+
+    reconnect(): void {
+        this.reconnectAttempts = 0;
+        this.connect();
+    }
+
+    disconnect(): void {
+        const wasActive = this.active;
+        this.stop();
+        if (wasActive) {
+            this.handlers.onConnection(false);
+            console.log(`[${this.kind}] Disconnected`);
+        }
+    }
+
+    /**
+     * Query values that resume the stream after the last received event. The
+     * streamId lets the server tell a stale id from before its restart.
+     */
+    protected resumeParams(): URLSearchParams {
+        const params = new URLSearchParams();
+        if (this.lastEventId !== null) params.set('lastEventId', String(this.lastEventId));
+        if (this.streamId) params.set('streamId', this.streamId);
+        return params;
+    }
+
+    protected opened(): void {
+        this.reconnectAttempts = 0;
+        this.handlers.onConnection(true);
+        this.resetHeartbeat();
+        console.log(`[${this.kind}] Connected`);
+    }
+
+    /**
+     * Handles the server's stream identity. A new streamId means the server
+     * restarted: its ids start over and what it sent before its replay buffer is lost.
+     * resumeAfter is the id the server continues from; it becomes the cursor
+     * when there is none yet.
+     */
+    protected hello(streamId: string, resumeAfter: number): void {
+        if (this.streamId && streamId !== this.streamId) {
+            this.reportGap('restart');
+            this.lastEventId = null;
+        }
+        this.streamId = streamId;
+        if (this.lastEventId === null) {
+            this.lastEventId = resumeAfter;
+        }
+        this.resetHeartbeat();
+    }
+
+    protected heartbeat(): void {
+        this.resetHeartbeat();
+    }
+
+    protected receive(id: number | null, raw: unknown): void {
+        this.resetHeartbeat();
+
+        if (id !== null && this.lastEventId !== null) {
+            if (id <= this.lastEventId) return; // Already received before a reconnect
+            if (id > this.lastEventId + 1) this.reportGap('missed', id - this.lastEventId - 1);
+        }
+        if (id !== null) this.lastEventId = id;
+
+        const decoded = decodeEvent(raw);
+        if (!decoded.ok) {
+            console.warn(`[${this.kind}] Malformed event: ${decoded.error}`, raw);
+            this.handlers.onDiagnostic({
+                id: crypto.randomUUID(),
+                receivedAt: new Date().toISOString(),
+                error: decoded.error,
+                raw,
+            });
+            return;
+        }
+
+        this.lastTimestamp = decoded.event.timestamp;
+        this.handlers.onEvent(decoded.event);
+    }
+
+    /** Drops the connection and schedules a reconnect. */
+    protected failed(): void {
+        this.stop();
+        this.active = true;
+        this.handlers.onConnection(false);
+        this.scheduleReconnect();
+    }
+
+    private stop(): void {
+        this.active = false;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.heartbeatTimer) {
+            clearTimeout(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        this.close();
+    }
+
+    private resetHeartbeat(): void {
+        if (this.heartbeatTimer) clearTimeout(this.heartbeatTimer);
+        this.heartbeatTimer = setTimeout(() => {
+            console.warn(`[${this.kind}] No heartbeat, reconnecting`);
+            this.failed();
+        }, this.heartbeatTimeout);
+    }
+
+    private reportGap(reason: StreamGap['reason'], missed?: number): void {
+        console.warn(`[${this.kind}] Gap in event stream (${reason}${missed ? `, ${missed} events` : ''})`);
+        this.handlers.onGap({
+            id: crypto.randomUUID(),
+            reason,
+            missed,
+            after: this.lastTimestamp,
+            detectedAt: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Retries forever with exponential backoff and jitter, so clients that lost
+     * the connection together do not all come back at the same moment.
+     */
+    private scheduleReconnect(): void {
+        const ceiling = Math.min(this.baseDelay * Math.pow(2, this.reconnectAttempts), this.maxDelay);
+        const delay = Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+        this.reconnectAttempts++;
+
+        console.log(`[${this.kind}] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+        this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    }
+}
@@ -0,0 +1,92 @@
+import { EventTransport, SseEvent, TransportHandlers } from '../types';
+import { sessionRecorder } from './sessionRecorder';
+
+/**
+ * Plays recorded events as if they arrived live, for demos and tests without a
+ * backend. The source is an in-memory list or the URL of an NDJSON session
+ * recording. Events keep their recorded spacing, divided by speed; speed 0
+ * delivers them all at once. Reconnecting continues where playback stopped.
+ */
+export class RecordingClient implements EventTransport {
+    readonly kind = 'recording';
+    private readonly source: SseEvent[] | string;
+    private readonly handlers: TransportHandlers;
+    private readonly speed: number;
+    private events: SseEvent[] | null = null;
+    private cursor = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    /** Bumped on every connect/disconnect so a stale load does not start playing. */
+    private generation = 0;
+
+    constructor(source: SseEvent[] | string, handlers: TransportHandlers, speed = 1) {
+        this.source = source;
+        this.handlers = handlers;
+        this.speed = speed;
+    }
+
+    connect(): void {
+        this.stop();
+        const generation = this.generation;
+
+        this.load()
+            .then((events) => {
+                if (generation !== this.generation) return;
+                this.events = events;
+                this.handlers.onConnection(true);
+                console.log(`[recording] Playing ${events.length - this.cursor} events`);
+                this.playNext();
+            })
+            .catch((error) => {
+                if (generation !== this.generation) return;
+                console.error('[recording] Failed to load recording:', error);
+                this.handlers.onConnection(false);
+            });
+    }
+
+    reconnect(): void {
+        this.connect();
+    }
+
+    disconnect(): void {
+        this.stop();
+        this.handlers.onConnection(false);
+    }
+
+    private async load(): Promise<SseEvent[]> {
+        if (this.events) return this.events;
+        if (Array.isArray(this.source)) return this.source;
+
+        const response = await fetch(this.source);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch recording: ${response.statusText}`);
+        }
+        return sessionRecorder.parse(await response.text()).events;
+    }
+
+    private playNext(): void {
+        const events = this.events;
+        if (!events) return;
+
+        while (this.cursor < events.length) {
+            const event = events[this.cursor++];
+            this.handlers.onEvent(event);
+
+            const next = events[this.cursor];
+            if (!next) return;
+
+            const spacing = Date.parse(next.timestamp) - Date.parse(event.timestamp);
+            if (this.speed > 0 && spacing > 0) {
+                this.timer = setTimeout(() => this.playNext(), spacing / this.speed);
+                return;
+            }
+        }
+    }
+
+    private stop(): void {
+        this.generation++;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+}
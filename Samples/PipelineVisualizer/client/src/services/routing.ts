@@ -0,0 +1,89 @@
+import { PipelineStep, RoutingDecision, SseEvent } from '../types';
+import { childSteps, subtreeStepNames } from '../utils/pipelineSteps';
+
+/**
+ * Latest routing decision per router step.
+ */
+export function collectRoutingDecisions(events: SseEvent[]): Record<string, RoutingDecision> {
+    return applyRoutingEvents({}, events);
+}
+
+/**
+ * Adds a batch of events to the decisions collected so far, copying them once.
+ */
+export function applyRoutingEvents(
+    decisions: Record<string, RoutingDecision>,
+    events: SseEvent[]
+): Record<string, RoutingDecision> {
+    let next = decisions;
+
+    for (const event of events) {
+        if (event.type !== 'pipeline' || event.eventType !== 'step.routing') continue;
+
+        if (next === decisions) next = { ...decisions };
+        next[event.stepName] = {
+            stepName: event.stepName,
+            selectedRoute: event.data.selectedRoute,
+            reason: event.data.routingReason || undefined,
+            timestamp: event.timestamp,
+        };
+    }
+
+    return next;
+}
+
+/**
+ * Whether a router's decision took the given route. The backend reports the
+ * route's target step name (SwitchStep sends targetStep.Name), not the route key;
+ * the key is accepted too.
+ */
+export function isTakenRoute(routeName: string, routeStep: PipelineStep, decision: RoutingDecision): boolean {
+    return decision.selectedRoute === routeStep.name || decision.selectedRoute === routeName;
+}
+
+/**
+ * Steps under routes that a decided router did not take.
+ */
+export function findUntakenSteps(steps: PipelineStep[], decisions: Record<string, RoutingDecision>): Set<string> {
+    const untaken = new Set<string>();
+
+    const visit = (step: PipelineStep) => {
+        const decision = decisions[step.name];
+        if (step.routes && decision) {
+            for (const [routeName, routeStep] of Object.entries(step.routes)) {
+                if (isTakenRoute(routeName, routeStep, decision)) {
+                    visit(routeStep);
+                } else {
+                    subtreeStepNames(routeStep).forEach(name => untaken.add(name));
+                }
+            }
+            return;
+        }
+        childSteps(step).forEach(visit);
+    };
+
+    steps.forEach(visit);
+    return untaken;
+}
+
+/**
+ * First steps of the routes that a decided router did not take.
+ */
+export function findUntakenRoutes(steps: PipelineStep[], decisions: Record<string, RoutingDecision>): string[] {
+    const untaken: string[] = [];
+
+    const visit = (step: PipelineStep) => {
+        const decision = decisions[step.name];
+        if (step.routes && decision) {
+            for (const [routeName, routeStep] of Object.entries(step.routes)) {
+                if (!isTakenRoute(routeName, routeStep, decision)) {
+                    untaken.push(routeStep.name);
+                }
+            }
+        }
+        childSteps(step).forEach(visit);
+    };
+
+    steps.forEach(visit);
+    return untaken;
+}
@@ -0,0 +1,150 @@
+import { PipelineDefinition, PipelineRun, RoutingDecision, RunComparison, SseEvent, StepDiff, StepFieldChange, StepRunStats } from '../types';
+import { diffLines } from '../utils/textDiff';
+import { findStep, subtreeStepNames } from '../utils/pipelineSteps';
+import { collectRoutingDecisions, isTakenRoute } from './routing';
+
+/** A run together with all of its events, including spilled ones. */
+export interface ComparedRun {
+    run: PipelineRun;
+    events: SseEvent[];
+}
+
+/**
+ * Name of the pipeline a run executed, from its pipeline.started or pipeline.completed event.
+ */
+export function runPipelineName(run: PipelineRun): string | undefined {
+    for (const event of run.events) {
+        if (event.type === 'pipeline' && (event.eventType === 'pipeline.started' || event.eventType === 'pipeline.completed')) {
+            return event.data.pipelineName;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Compares two runs step by step, in definition order; steps that ran but are
+ * not in the definition come last.
+ */
+export function compareRuns(pipeline: PipelineDefinition, left: ComparedRun, right: ComparedRun): RunComparison {
+    const leftRouting = collectRoutingDecisions(left.events);
+    const rightRouting = collectRoutingDecisions(right.events);
+    const leftRoutes = takenRouteKeys(pipeline, leftRouting);
+    const rightRoutes = takenRouteKeys(pipeline, rightRouting);
+    const leftStats = collectStepStats(left, leftRoutes);
+    const rightStats = collectStepStats(right, rightRoutes);
+
+    const stepNames = [...new Set([
+        ...pipeline.pipeline.flatMap(subtreeStepNames),
+        ...Object.keys(leftStats),
+        ...Object.keys(rightStats),
+    ])];
+
+    const skipped: StepRunStats = { status: 'skipped', tokens: 0 };
+    const steps = stepNames.map(stepName => {
+        const leftStep = leftStats[stepName] ?? skipped;
+        const rightStep = rightStats[stepName] ?? skipped;
+        const hasOutput = leftStep.output !== undefined || rightStep.output !== undefined;
+        return {
+            stepName,
+            left: leftStep,
+            right: rightStep,
+            outputDiff: hasOutput ? diffLines(leftStep.output ?? '', rightStep.output ?? '') : [],
+        };
+    });
+
+    const diff: Record<string, StepDiff> = {};
+    steps.forEach(({ stepName, left, right }) => {
+        diff[stepName] = diffStepRuns(left, right);
+    });
+
+    const sharedRouting: Record<string, RoutingDecision> = {};
+    for (const [router, decision] of Object.entries(rightRouting)) {
+        if (leftRouting[router] && leftRoutes[router] === rightRoutes[router]) {
+            sharedRouting[router] = decision;
+        }
+    }
+
+    return { steps, diff, sharedRouting };
+}
+
+/**
+ * Change in milliseconds or tokens, signed, e.g. "+1.2s" or "-340".
+ */
+export function formatDelta(before: number | undefined, after: number | undefined, unit: 'ms' | 'tokens'): string {
+    if (before === undefined || after === undefined) return '';
+    const delta = after - before;
+    const sign = delta > 0 ? '+' : delta < 0 ? '-' : '±';
+    const magnitude = Math.abs(delta);
+    if (unit === 'tokens') return `${sign}${magnitude}`;
+    return `${sign}${magnitude < 1000 ? `${Math.round(magnitude)}ms` : `${(magnitude / 1000).toFixed(1)}s`}`;
+}
+
+/**
+ * Route key taken by each decided router, as the graph labels its route edges.
+ * Decisions name the route's target step; one that matches no route keeps that name.
+ */
+function takenRouteKeys(pipeline: PipelineDefinition, routing: Record<string, RoutingDecision>): Record<string, string> {
+    const keys: Record<string, string> = {};
+    for (const [router, decision] of Object.entries(routing)) {
+        const routes = Object.entries(findStep(pipeline.pipeline, router)?.routes ?? {});
+        const taken = routes.find(([routeName, routeStep]) => isTakenRoute(routeName, routeStep, decision));
+        keys[router] = taken?.[0] ?? decision.selectedRoute;
+    }
+    return keys;
+}
+
+function collectStepStats(compared: ComparedRun, routes: Record<string, string>): Record<string, StepRunStats> {
+    const { run, events } = compared;
+    const stats: Record<string, StepRunStats> = {};
+    const statsFor = (stepName: string) => stats[stepName] ??= {
+        status: run.failedSteps.includes(stepName) ? 'failed' : 'completed',
+        tokens: 0,
+        route: routes[stepName],
+    };
+
+    for (const event of events) {
+        if (event.type !== 'pipeline') continue;
+        if (event.eventType === 'step.started') {
+            statsFor(event.stepName);
+        } else if (event.eventType === 'step.completed' && event.data.durationMs !== undefined) {
+            const step = statsFor(event.stepName);
+            step.durationMs = (step.durationMs ?? 0) + event.data.durationMs;
+        } else if (event.eventType === 'llm.response') {
+            statsFor(event.stepName).tokens += event.data.tokensUsed;
+        }
+    }
+
+    const finalSnapshot = run.snapshots[run.snapshots.length - 1];
+    for (const [stepName, result] of Object.entries(finalSnapshot?.stepResults ?? {})) {
+        if (stats[stepName]) {
+            stats[stepName].output = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+        }
+    }
+
+    return stats;
+}
+
+/**
+ * Duration always differs between runs, so it is listed but does not make a step modified.
+ */
+function diffStepRuns(left: StepRunStats, right: StepRunStats): StepDiff {
+    if (left.status === 'skipped' && right.status === 'skipped') return { kind: 'unchanged', changes: [] };
+    if (left.status === 'skipped') return { kind: 'added', changes: [] };
+    if (right.status === 'skipped') return { kind: 'removed', changes: [] };
+
+    const changes: StepFieldChange[] = [];
+    if (left.status !== right.status) changes.push({ field: 'status', before: left.status, after: right.status });
+    if (left.route !== right.route) changes.push({ field: 'route', before: left.route, after: right.route });
+    if (left.tokens !== right.tokens) changes.push({ field: 'tokens', before: left.tokens, after: right.tokens });
+    if (left.output !== right.output) changes.push({ field: 'output', before: summarize(left.output), after: summarize(right.output) });
+    if (changes.length === 0) return { kind: 'unchanged', changes };
+
+    if (left.durationMs !== undefined && right.durationMs !== undefined) {
+        changes.push({ field: 'duration', before: `${Math.round(left.durationMs)}ms`, after: `${Math.round(right.durationMs)}ms` });
+    }
+    return { kind: 'modified', changes };
+}
+
+function summarize(output?: string): string | undefined {
+    return output && output.length > 60 ? `${output.substring(0, 57)}…` : output;
+}
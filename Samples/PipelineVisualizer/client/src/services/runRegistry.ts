@@ -0,0 +1,297 @@
+import { SseEvent, PipelineEvent, PipelineEventOf, LogEvent, PipelineRun, RunView, ContextSnapshot, LlmStream, RunInsights } from '../types';
+import { applyToolCallEvents } from './toolCalls';
+import { applyTagEvents } from './tagSpans';
+import { applyValidationEvents } from './validation';
+import { applyRoutingEvents } from './routing';
+import { applyUsageEvents } from './pricing';
+
+/**
+ * Pure state transitions for the per-correlationId run registry.
+ * Kept free of React so the same logic can drive live and offline views.
+ */
+
+const EMPTY_INSIGHTS: RunInsights = {
+    toolCalls: [],
+    tags: { spans: {}, streamingSteps: {} },
+    validations: {},
+    routing: {},
+    usage: [],
+    llmStreams: {},
+    startOrder: [],
+};
+
+export function createRun(correlationId: string, startedAt: string): PipelineRun {
+    return {
+        correlationId,
+        status: 'running',
+        startedAt,
+        activeSteps: [],
+        completedSteps: [],
+        failedSteps: [],
+        interruptedSteps: [],
+        snapshots: [],
+        events: [],
+        droppedEvents: 0,
+        insights: EMPTY_INSIGHTS,
+    };
+}
+
+/**
+ * Applies an event to the registry, returning a new array when a run changes.
+ * Runs are kept in start order.
+ */
+export function applyEventToRuns(runs: PipelineRun[], event: SseEvent): PipelineRun[] {
+    return applyEventsToRuns(runs, [event]);
+}
+
+/**
+ * Applies a batch of events in order. Step state is updated per event, but each
+ * affected run's event list and insights are updated once per batch. A run keeps
+ * its newest maxEvents events; older ones are dropped and counted in droppedEvents.
+ */
+export function applyEventsToRuns(runs: PipelineRun[], events: SseEvent[], maxEvents = Infinity): PipelineRun[] {
+    let next = runs;
+    const appended = new Map<number, SseEvent[]>();
+
+    for (const event of events) {
+        const correlationId = resolveCorrelationId(next, event);
+        if (!correlationId) continue;
+
+        if (next === runs) next = [...runs];
+        let index = next.findIndex(run => run.correlationId === correlationId);
+        if (index < 0) {
+            index = next.push(createRun(correlationId, event.timestamp)) - 1;
+        }
+
+        if (event.type === 'pipeline') {
+            next[index] = applyPipelineEvent(next[index], event);
+        }
+        const batch = appended.get(index);
+        if (batch) {
+            batch.push(event);
+        } else {
+            appended.set(index, [event]);
+        }
+    }
+
+    for (const [index, batch] of appended) {
+        const run = next[index];
+        const combined = run.events.concat(batch);
+        const overflow = Math.max(0, combined.length - maxEvents);
+        next[index] = {
+            ...run,
+            events: overflow > 0 ? combined.slice(overflow) : combined,
+            droppedEvents: run.droppedEvents + overflow,
+            insights: applyInsightEvents(run.insights, batch, run.events.length + run.droppedEvents),
+        };
+    }
+
+    return next;
+}
+
+/**
+ * Marks a run as cancelled by the user: steps still running are interrupted,
+ * not completed. Events that arrive afterwards do not revive it.
+ */
+export function cancelRun(runs: PipelineRun[], correlationId: string, cancelledAt: string): PipelineRun[] {
+    return runs.map(run => run.correlationId === correlationId && run.status === 'running'
+        ? markCancelled(run, cancelledAt)
+        : run);
+}
+
+/**
+ * Picks the run shown when the user has not pinned one: the followed
+ * correlationId if it is known, otherwise the most recently started run.
+ */
+export function resolveDisplayedRun(
+    runs: PipelineRun[],
+    selectedRunId: string | null,
+    followCorrelationId?: string | null
+): PipelineRun | undefined {
+    if (selectedRunId) {
+        return runs.find(run => run.correlationId === selectedRunId);
+    }
+    if (followCorrelationId) {
+        const followed = runs.find(run => run.correlationId === followCorrelationId);
+        if (followed) return followed;
+    }
+    return runs[runs.length - 1];
+}
+
+/**
+ * Projects a run onto the panel state; without a run, only the fallback events are shown.
+ */
+export function selectRunView(run: PipelineRun | undefined, fallbackEvents: SseEvent[] = []): RunView {
+    return {
+        events: run ? run.events : fallbackEvents,
+        status: run?.status ?? 'idle',
+        activeSteps: run?.activeSteps ?? [],
+        completedSteps: run?.completedSteps ?? [],
+        failedSteps: run?.failedSteps ?? [],
+        interruptedSteps: run?.interruptedSteps ?? [],
+        context: run?.snapshots[run.snapshots.length - 1],
+        snapshots: run?.snapshots ?? [],
+        insights: run ? run.insights : applyInsightEvents(EMPTY_INSIGHTS, fallbackEvents, 0),
+    };
+}
+
+/**
+ * The live LLM output of the most recently started step that has streamed.
+ * Each step's chunks are kept apart, so parallel steps interleaving their chunks
+ * neither switch the output back and forth nor drop text already shown.
+ */
+export function selectLlmStream(run: PipelineRun): LlmStream | undefined {
+    const { llmStreams, startOrder } = run.insights;
+    for (let i = startOrder.length - 1; i >= 0; i--) {
+        const stream = llmStreams[startOrder[i]];
+        if (stream) return stream;
+    }
+    return Object.values(llmStreams).pop();
+}
+
+/**
+ * Builds the whole LLM output of one step, across all of its llm.response chunks.
+ */
+export function selectStepLlmOutput(events: SseEvent[], stepName: string): LlmStream | undefined {
+    return applyLlmEvents({}, events)[stepName];
+}
+
+/**
+ * The context of a context.snapshot event, tagged with the step that sent it.
+ */
+export function toContextSnapshot(event: PipelineEventOf<'context.snapshot'>): ContextSnapshot {
+    return {
+        ...event.data,
+        stepName: event.stepName,
+        timestamp: event.timestamp,
+    };
+}
+
+/**
+ * Step and status transitions of one event; the event itself is appended by the caller.
+ */
+function applyPipelineEvent(run: PipelineRun, event: PipelineEvent): PipelineRun {
+    const next: PipelineRun = { ...run };
+
+    switch (event.eventType) {
+        case 'pipeline.started':
+            next.status = 'running';
+            break;
+        case 'pipeline.completed':
+            if (event.data.cancelled || run.status === 'cancelled') {
+                return markCancelled(next, run.completedAt ?? event.timestamp);
+            }
+            next.status = event.data.success ? 'completed' : 'error';
+            next.completedAt = event.timestamp;
+            next.activeSteps = [];
+            break;
+        case 'step.started':
+            if (run.status === 'cancelled') break;
+            if (!run.activeSteps.includes(event.stepName)) {
+                next.activeSteps = [...run.activeSteps, event.stepName];
+            }
+            break;
+        case 'step.completed':
+            // An interrupted step reports its cancellation as a failed completion
+            if (run.interruptedSteps.includes(event.stepName)) break;
+            next.activeSteps = run.activeSteps.filter(name => name !== event.stepName);
+            next.completedSteps = [...run.completedSteps, event.stepName];
+            if (!event.data.success && !run.failedSteps.includes(event.stepName)) {
+                next.failedSteps = [...run.failedSteps, event.stepName];
+            }
+            break;
+        case 'context.snapshot':
+            next.snapshots = [...run.snapshots, toContextSnapshot(event)];
+            break;
+    }
+
+    return next;
+}
+
+function markCancelled(run: PipelineRun, cancelledAt: string): PipelineRun {
+    return {
+        ...run,
+        status: 'cancelled',
+        completedAt: cancelledAt,
+        activeSteps: [],
+        interruptedSteps: [...run.interruptedSteps, ...run.activeSteps.filter(name => !run.interruptedSteps.includes(name))],
+    };
+}
+
+/**
+ * Pipeline events carry their correlationId. Log events are matched through the
+ * Serilog CorrelationId property, or attributed to the only running run.
+ */
+function resolveCorrelationId(runs: PipelineRun[], event: SseEvent): string | undefined {
+    if (event.type === 'pipeline') {
+        return event.correlationId || undefined;
+    }
+
+    const fromProperties = logCorrelationId(event);
+    if (fromProperties && runs.some(run => run.correlationId === fromProperties)) {
+        return fromProperties;
+    }
+
+    const running = runs.filter(run => run.status === 'running');
+    return running.length === 1 ? running[0].correlationId : undefined;
+}
+
+export function logCorrelationId(event: LogEvent): string | undefined {
+    // Serilog renders scalar string properties with surrounding quotes
+    const raw = event.properties?.CorrelationId;
+    return raw ? raw.replace(/^"|"$/g, '') : undefined;
+}
+
+function applyInsightEvents(insights: RunInsights, events: SseEvent[], firstIndex: number): RunInsights {
+    return {
+        toolCalls: applyToolCallEvents(insights.toolCalls, events, firstIndex),
+        tags: applyTagEvents(insights.tags, events, firstIndex),
+        validations: applyValidationEvents(insights.validations, events),
+        routing: applyRoutingEvents(insights.routing, events),
+        usage: applyUsageEvents(insights.usage, events),
+        llmStreams: applyLlmEvents(insights.llmStreams, events),
+        startOrder: applyStartOrder(insights.startOrder, events),
+    };
+}
+
+/**
+ * Appends a batch's llm.response chunks to each step's output, copying only the
+ * streams that grew. Chunks are deltas; thinking chunks are kept apart as reasoning.
+ */
+function applyLlmEvents(streams: Record<string, LlmStream>, events: SseEvent[]): Record<string, LlmStream> {
+    let next = streams;
+    const copied = new Set<string>();
+
+    for (const event of events) {
+        if (event.type !== 'pipeline' || event.eventType !== 'llm.response') continue;
+
+        if (next === streams) next = { ...streams };
+        if (!copied.has(event.stepName)) {
+            next[event.stepName] = { ...(next[event.stepName] ?? { stepName: event.stepName, content: '', reasoning: '', tokens: 0 }) };
+            copied.add(event.stepName);
+        }
+        appendLlmChunk(next[event.stepName], event);
+    }
+
+    return next;
+}
+
+/** Moves each step that starts in the batch to the end of the start order. */
+function applyStartOrder(startOrder: string[], events: SseEvent[]): string[] {
+    let next = startOrder;
+    for (const event of events) {
+        if (event.type !== 'pipeline' || event.eventType !== 'step.started') continue;
+        next = [...next.filter(name => name !== event.stepName), event.stepName];
+    }
+    return next;
+}
+
+function appendLlmChunk(stream: LlmStream, event: PipelineEventOf<'llm.response'>): void {
+    if (event.data.isThinking) {
+        stream.reasoning += event.data.content;
+    } else {
+        stream.content += event.data.content;
+    }
+    stream.tokens += event.data.tokensUsed;
+    stream.model = event.data.model ?? stream.model;
+}
@@ -0,0 +1,95 @@
+import { PipelineDefinition, PipelineRun, SessionRecording } from '../types';
+import { decodeEvent } from './eventDecoder';
+
+const RECORDING_VERSION = 1;
+
+interface RecordingHeader {
+    type: 'recording';
+    version: number;
+    recordedAt: string;
+    correlationId?: string;
+    pipeline: PipelineDefinition | null;
+}
+
+/**
+ * Session recordings are stored as NDJSON: a header line with the pipeline
+ * definition, followed by one line per SSE event in arrival order.
+ */
+export const sessionRecorder = {
+    /**
+     * Captures a run together with the definition it is displayed against.
+     */
+    fromRun(run: PipelineRun, pipeline: PipelineDefinition | null): SessionRecording {
+        return {
+            version: RECORDING_VERSION,
+            recordedAt: new Date().toISOString(),
+            correlationId: run.correlationId,
+            pipeline,
+            events: run.events,
+        };
+    },
+
+    serialize(session: SessionRecording): string {
+        const header: RecordingHeader = {
+            type: 'recording',
+            version: session.version,
+            recordedAt: session.recordedAt,
+            correlationId: session.correlationId,
+            pipeline: session.pipeline,
+        };
+
+        return [header, ...session.events].map(line => JSON.stringify(line)).join('\n') + '\n';
+    },
+
+    parse(text: string): SessionRecording {
+        const lines = text.split('\n').filter(line => line.trim().length > 0);
+        if (lines.length === 0) {
+            throw new Error('Recording is empty');
+        }
+
+        const header = JSON.parse(lines[0]) as RecordingHeader;
+        if (header.type !== 'recording') {
+            throw new Error('Not a pipeline session recording');
+        }
+        if (header.version > RECORDING_VERSION) {
+            throw new Error(`Unsupported recording version: ${header.version}`);
+        }
+
+        return {
+            version: header.version,
+            recordedAt: header.recordedAt,
+            correlationId: header.correlationId,
+            pipeline: header.pipeline,
+            events: lines.slice(1).map((line, index) => {
+                let raw: unknown;
+                try {
+                    raw = JSON.parse(line);
+                } catch {
+                    throw new Error(`Invalid event on line ${index + 2}`);
+                }
+                const decoded = decodeEvent(raw);
+                if (!decoded.ok) {
+                    throw new Error(`Invalid event on line ${index + 2}: ${decoded.error}`);
+                }
+                return decoded.event;
+            }),
+        };
+    },
+
+    /**
+     * Triggers a browser download of the recording.
+     */
+    download(session: SessionRecording): void {
+        const blob = new Blob([sessionRecorder.serialize(session)], { type: 'application/x-ndjson' });
+        const url = URL.createObjectURL(blob);
+        const anchor = document.createElement('a');
+        anchor.href = url;
+        anchor.download = `run-${session.correlationId?.substring(0, 8) ?? 'session'}.ndjson`;
+        anchor.click();
+        URL.revokeObjectURL(url);
+    },
+
+    async load(file: File): Promise<SessionRecording> {
+        return sessionRecorder.parse(await file.text());
+    },
+};
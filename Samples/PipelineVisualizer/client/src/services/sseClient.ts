@@ -1,78 +1,50 @@
-import { SseEvent } from '../types';
-
-type EventHandler = (event: SseEvent) => void;
-type ConnectionHandler = (connected: boolean) => void;
+import { TransportHandlers } from '../types';
+import { ReconnectingTransport } from './reconnectingTransport';
 
 /**
  * SSE client for connecting to the backend event stream.
- * Handles reconnection and event parsing.
+ * Handles event parsing; reconnection and gap detection live in ReconnectingTransport.
  */
-export class SseClient {
+export class SseClient extends ReconnectingTransport {
+    readonly kind = 'sse';
     private eventSource: EventSource | null = null;
-    private onEvent: EventHandler;
-    private onConnection: ConnectionHandler;
-    private reconnectAttempts = 0;
-    private readonly maxReconnectAttempts = 5;
-    private readonly baseUrl: string;
 
-    constructor(
-        baseUrl: string,
-        onEvent: EventHandler,
-        onConnection: ConnectionHandler
-    ) {
-        this.baseUrl = baseUrl;
-        this.onEvent = onEvent;
-        this.onConnection = onConnection;
+    constructor(baseUrl: string, handlers: TransportHandlers) {
+        super(baseUrl, handlers);
     }
 
-    connect(): void {
-        if (this.eventSource) {
-            this.disconnect();
-        }
+    protected open(): void {
+        // EventSource only sends Last-Event-ID on its own reconnects, so a new one resumes via the query
+        const resume = this.resumeParams().toString();
+        const eventSource = new EventSource(`${this.baseUrl}/api/events${resume ? `?${resume}` : ''}`);
+        this.eventSource = eventSource;
 
-        this.eventSource = new EventSource(`${this.baseUrl}/api/events`);
+        eventSource.onopen = () => this.opened();
 
-        this.eventSource.onopen = () => {
-            this.reconnectAttempts = 0;
-            this.onConnection(true);
-            console.log('[SSE] Connected');
-        };
+        eventSource.addEventListener('hello', (event) => {
+            const { streamId, lastEventId } = JSON.parse((event as MessageEvent).data) as { streamId: string; lastEventId: number };
+            this.hello(streamId, lastEventId);
+        });
 
-        this.eventSource.onmessage = (event) => {
+        eventSource.addEventListener('heartbeat', () => this.heartbeat());
+
+        eventSource.onmessage = (event) => {
             try {
-                const parsed = JSON.parse(event.data) as SseEvent;
-                this.onEvent(parsed);
+                const parsed: unknown = JSON.parse(event.data);
+                this.receive(event.lastEventId ? Number(event.lastEventId) : null, parsed);
             } catch (error) {
                 console.error('[SSE] Failed to parse event:', error);
             }
         };
 
-        this.eventSource.onerror = () => {
+        eventSource.onerror = () => {
             console.error('[SSE] Connection error');
-            this.onConnection(false);
-            this.scheduleReconnect();
+            this.failed();
         };
     }
 
-    disconnect(): void {
-        if (this.eventSource) {
-            this.eventSource.close();
-            this.eventSource = null;
-            this.onConnection(false);
-            console.log('[SSE] Disconnected');
-        }
-    }
-
-    private scheduleReconnect(): void {
-        if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-            console.error('[SSE] Max reconnection attempts reached');
-            return;
-        }
-
-        const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-        this.reconnectAttempts++;
-
-        console.log(`[SSE] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
-        setTimeout(() => this.connect(), delay);
+    protected close(): void {
+        this.eventSource?.close();
+        this.eventSource = null;
     }
 }
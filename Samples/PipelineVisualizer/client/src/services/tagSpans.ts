@@ -0,0 +1,121 @@
+import { SseEvent, TagSpan, TagSpanState } from '../types';
+
+/** Step names the framework's tag handlers send in place of the step that streamed the tag. */
+const HANDLER_STEP_NAMES = new Set(['StreamingTag', 'BatchTag']);
+
+/**
+ * Builds the tag tree of each step from tag.started / tag.completed events.
+ * Tag handlers do not know their step, so their events are given the step that
+ * last started or streamed in the same run. A tag opened while another is open
+ * in the same step nests inside it; a completion closes the innermost open tag
+ * with the same name, in that step or else in another step still streaming.
+ */
+export function buildTagSpans(events: SseEvent[]): Record<string, TagSpan[]> {
+    return applyTagEvents({ spans: {}, streamingSteps: {} }, events, 0).spans;
+}
+
+/**
+ * Adds a batch of events to the tag trees built so far. Only the trees of the
+ * steps whose tags changed are copied, along the path to the changed tag.
+ * firstIndex is the batch's position in the stream; span ids are event positions.
+ */
+export function applyTagEvents(state: TagSpanState, events: SseEvent[], firstIndex: number): TagSpanState {
+    let spans = state.spans;
+    let streamingSteps = state.streamingSteps;
+
+    events.forEach((event, offset) => {
+        if (event.type !== 'pipeline') return;
+        if (event.eventType === 'step.started' || event.eventType === 'llm.response') {
+            if (streamingSteps[event.correlationId] === event.stepName) return;
+            if (streamingSteps === state.streamingSteps) streamingSteps = { ...streamingSteps };
+            streamingSteps[event.correlationId] = event.stepName;
+            return;
+        }
+        if (event.eventType !== 'tag.started' && event.eventType !== 'tag.completed') return;
+
+        if (spans === state.spans) spans = { ...spans };
+        const tagName = event.data.tagName;
+        const stepName = HANDLER_STEP_NAMES.has(event.stepName)
+            ? streamingSteps[event.correlationId] ?? event.stepName
+            : event.stepName;
+
+        if (event.eventType === 'tag.started') {
+            const span: TagSpan = {
+                id: `${firstIndex + offset}`,
+                stepName,
+                tagName,
+                attributes: event.data.attributes,
+                startedAt: event.timestamp,
+                children: [],
+            };
+            const roots = spans[stepName] ?? [];
+            const depth = openChain(roots).length;
+            spans[stepName] = depth === 0
+                ? [...roots, span]
+                : replaceInChain(roots, depth - 1, parent => ({ ...parent, children: [...parent.children, span] }));
+            return;
+        }
+
+        // Parallel steps interleave their chunks, so the tag may belong to another step
+        const owner = [stepName, ...Object.keys(spans)]
+            .find(name => openChain(spans[name] ?? []).some(span => span.tagName === tagName));
+        if (!owner) return;
+        const position = openChain(spans[owner]).map(span => span.tagName).lastIndexOf(tagName);
+
+        // Closing a tag also closes anything left open inside it, without a result
+        spans[owner] = replaceInChain(spans[owner], position, span => ({
+            ...closeChain(span, event.timestamp),
+            durationMs: event.data.durationMs,
+            success: event.data.success,
+            errorMessage: event.data.errorMessage,
+        }));
+    });
+
+    return spans === state.spans && streamingSteps === state.streamingSteps ? state : { spans, streamingSteps };
+}
+
+/**
+ * Innermost open tag per step, for live indicators.
+ */
+export function findOpenTags(spans: Record<string, TagSpan[]>): Record<string, string> {
+    const openTags: Record<string, string> = {};
+
+    const visit = (span: TagSpan) => {
+        if (span.completedAt !== undefined) return;
+        openTags[span.stepName] = span.tagName;
+        span.children.forEach(visit);
+    };
+
+    Object.values(spans).forEach(list => list.forEach(visit));
+    return openTags;
+}
+
+/**
+ * Open tags of a step, outermost first. Tags only nest inside an open tag and
+ * closing one closes its children, so they are the chain of last children.
+ */
+function openChain(roots: TagSpan[]): TagSpan[] {
+    const chain: TagSpan[] = [];
+    let level = roots;
+    while (level.length > 0 && level[level.length - 1].completedAt === undefined) {
+        const span = level[level.length - 1];
+        chain.push(span);
+        level = span.children;
+    }
+    return chain;
+}
+
+/** Copies the open chain down to the tag at depth, which update replaces. */
+function replaceInChain(roots: TagSpan[], depth: number, update: (span: TagSpan) => TagSpan): TagSpan[] {
+    const span = roots[roots.length - 1];
+    const replaced = depth === 0 ? update(span) : { ...span, children: replaceInChain(span.children, depth - 1, update) };
+    return [...roots.slice(0, -1), replaced];
+}
+
+function closeChain(span: TagSpan, completedAt: string): TagSpan {
+    const last = span.children[span.children.length - 1];
+    const children = last && last.completedAt === undefined
+        ? [...span.children.slice(0, -1), closeChain(last, completedAt)]
+        : span.children;
+    return { ...span, completedAt, children };
+}
@@ -0,0 +1,75 @@
+import { SseEvent, ToolCall } from '../types';
+
+/**
+ * Pairs tool.started and tool.completed events into calls. Calls of the same
+ * tool in the same step complete in start order, so pairing is first-in first-out.
+ * A completion without a start (e.g. "Tool not found") becomes a call of its own.
+ */
+export function pairToolCalls(events: SseEvent[]): ToolCall[] {
+    return applyToolCallEvents([], events, 0);
+}
+
+/**
+ * Pairs a batch of events onto the calls paired so far, copying the list once.
+ * firstIndex is the batch's position in the stream; call ids are event positions.
+ */
+export function applyToolCallEvents(calls: ToolCall[], events: SseEvent[], firstIndex: number): ToolCall[] {
+    let next = calls;
+
+    events.forEach((event, offset) => {
+        if (event.type !== 'pipeline') return;
+        if (event.eventType !== 'tool.started' && event.eventType !== 'tool.completed') return;
+
+        if (next === calls) next = [...calls];
+        const { toolName, additionalData } = event.data;
+
+        if (event.eventType === 'tool.started') {
+            next.push({
+                id: `${firstIndex + offset}`,
+                stepName: event.stepName,
+                toolName,
+                startedAt: event.timestamp,
+                arguments: additionalData,
+            });
+            return;
+        }
+
+        const position = next.findIndex(call =>
+            call.completedAt === undefined && call.stepName === event.stepName && call.toolName === toolName);
+        const started = position >= 0 ? next[position] : {
+            id: `${firstIndex + offset}`,
+            stepName: event.stepName,
+            toolName,
+            startedAt: event.timestamp,
+        };
+        const completed: ToolCall = {
+            ...started,
+            completedAt: event.timestamp,
+            durationMs: event.data.durationMs,
+            success: event.data.success,
+            errorMessage: event.data.errorMessage,
+            result: additionalData,
+        };
+
+        if (position >= 0) {
+            next[position] = completed;
+        } else {
+            next.push(completed);
+        }
+    });
+
+    return next;
+}
+
+/**
+ * Tool call counts per step, for graph badges.
+ */
+export function countToolCalls(calls: ToolCall[]): Record<string, { total: number; failed: number }> {
+    const counts: Record<string, { total: number; failed: number }> = {};
+    for (const call of calls) {
+        const count = counts[call.stepName] ??= { total: 0, failed: 0 };
+        count.total++;
+        if (call.success === false) count.failed++;
+    }
+    return counts;
+}
@@ -0,0 +1,108 @@
+import { PipelineStep, TypeMismatch } from '../types';
+import { isGroupStep, isParallelStep, isRouterStep } from '../utils/pipelineSteps';
+
+/** Non-generic result base types: anything feeds them, and what they carry is only known at run time. */
+const BASE_TYPES = new Set(['StepResult', 'IStepResult']);
+
+/** Concrete result types that are closed generics of another result type. */
+const TYPE_ALIASES: Record<string, string> = {
+    LlmStringStepResult: 'LlmStepResult<string>',
+};
+
+interface Producer {
+    nodeId: string;
+    /** The parallel step whose branch produced the value, if any. */
+    via?: string;
+    type?: string;
+}
+
+/**
+ * Walks the definition the way GraphEngine's compact layout does (groups unwrapped,
+ * parallel fan-out, router fan-in) and reports every edge whose types do not fit.
+ */
+export function checkTypeFlow(steps: PipelineStep[]): TypeMismatch[] {
+    const mismatches: TypeMismatch[] = [];
+
+    const feed = (producers: Producer[], step: PipelineStep) => {
+        for (const producer of producers) {
+            if (!canFeed(producer.type, step.inputType)) {
+                mismatches.push({
+                    sources: producer.via ? [producer.nodeId, producer.via] : [producer.nodeId],
+                    target: step.name,
+                    outputType: producer.type!,
+                    inputType: step.inputType!,
+                });
+            }
+        }
+    };
+
+    const walkSequence = (sequence: PipelineStep[], incoming: Producer[]): Producer[] =>
+        sequence.reduce((producers, step) => walkStep(step, producers), incoming);
+
+    const walkStep = (step: PipelineStep, incoming: Producer[]): Producer[] => {
+        if (isGroupStep(step)) {
+            return walkSequence(step.steps!, incoming);
+        }
+
+        feed(incoming, step);
+
+        if (isParallelStep(step) && step.steps) {
+            // Every branch receives what fed the parallel step; the branches' results are
+            // collected into the parallel step's output
+            const fanOut = incoming.map(producer => ({ ...producer, nodeId: step.name, via: undefined }));
+            return step.steps.flatMap(child =>
+                walkStep(child, fanOut).map(tail => ({ nodeId: tail.nodeId, via: step.name, type: step.outputType ?? tail.type }))
+            );
+        }
+
+        if (isRouterStep(step) && step.routes) {
+            // Whichever route runs feeds the next step, so each route's tail is checked
+            const routed = [{ nodeId: step.name, type: step.outputType }];
+            return Object.values(step.routes).flatMap(route => walkStep(route, routed));
+        }
+
+        return [{ nodeId: step.name, type: step.outputType }];
+    };
+
+    walkSequence(steps, []);
+    return mismatches;
+}
+
+/**
+ * Whether a value of the output type can be passed as the input type. Undeclared
+ * types are not checked.
+ */
+export function canFeed(outputType?: string, inputType?: string): boolean {
+    if (!outputType || !inputType) return true;
+
+    const output = normalizeType(outputType);
+    const input = normalizeType(inputType);
+    if (output === input) return true;
+    if (BASE_TYPES.has(output) || BASE_TYPES.has(input)) return true;
+
+    const produced = splitGeneric(TYPE_ALIASES[output] ?? output);
+    const expected = splitGeneric(TYPE_ALIASES[input] ?? input);
+    if (produced.args !== expected.args) return false;
+    if (produced.name === expected.name) return true;
+
+    // IStepResult<T> accepts LlmStepResult<T>, StepResult<T>...
+    return expected.name.startsWith('I') && produced.name.endsWith(expected.name.substring(1));
+}
+
+/**
+ * Drops whitespace, namespaces and generic arity suffixes ("IntentionRouterStep`1").
+ */
+export function normalizeType(type: string): string {
+    return type
+        .replace(/\s+/g, '')
+        .replace(/`\d+/g, '')
+        .replace(/\b(?:\w+\.)+(\w+)/g, '$1')
+        .replace(/\bString\b/g, 'string');
+}
+
+function splitGeneric(type: string): { name: string; args: string } {
+    const open = type.indexOf('<');
+    return open < 0
+        ? { name: type, args: '' }
+        : { name: type.substring(0, open), args: type.substring(open) };
+}
@@ -0,0 +1,64 @@
+import { SseEvent, StepValidationSummary, ValidationAttempt } from '../types';
+
+/**
+ * Collects step.validation events per step, in attempt order.
+ */
+export function collectValidations(events: SseEvent[]): Record<string, ValidationAttempt[]> {
+    return applyValidationEvents({}, events);
+}
+
+/**
+ * Adds a batch of events to the attempts collected so far, copying only the
+ * steps that got a new attempt.
+ */
+export function applyValidationEvents(
+    byStep: Record<string, ValidationAttempt[]>,
+    events: SseEvent[]
+): Record<string, ValidationAttempt[]> {
+    let next = byStep;
+    const copied = new Set<string>();
+
+    for (const event of events) {
+        if (event.type !== 'pipeline' || event.eventType !== 'step.validation') continue;
+
+        if (next === byStep) next = { ...byStep };
+        if (!copied.has(event.stepName)) {
+            next[event.stepName] = [...(next[event.stepName] ?? [])];
+            copied.add(event.stepName);
+        }
+        next[event.stepName].push({
+            stepName: event.stepName,
+            attemptNumber: event.data.attemptNumber,
+            isValid: event.data.isValid,
+            validationType: event.data.validationType,
+            validationError: event.data.validationError,
+            timestamp: event.timestamp,
+        });
+    }
+
+    return next;
+}
+
+/**
+ * Per-step validation summary. A step is retrying while its latest attempt
+ * failed and it has not completed yet.
+ */
+export function summarizeValidations(
+    validations: Record<string, ValidationAttempt[]>,
+    activeSteps: string[]
+): Record<string, StepValidationSummary> {
+    const summaries: Record<string, StepValidationSummary> = {};
+
+    for (const [stepName, attempts] of Object.entries(validations)) {
+        const failed = attempts.filter(attempt => !attempt.isValid);
+        const latest = attempts[attempts.length - 1];
+        summaries[stepName] = {
+            attempts: Math.max(...attempts.map(attempt => attempt.attemptNumber)),
+            failures: failed.length,
+            retrying: !latest.isValid && activeSteps.includes(stepName),
+            lastError: failed[failed.length - 1]?.validationError,
+        };
+    }
+
+    return summaries;
+}
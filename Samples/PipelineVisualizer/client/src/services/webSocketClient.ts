@@ -0,0 +1,68 @@
+import { TransportHandlers } from '../types';
+import { ReconnectingTransport } from './reconnectingTransport';
+
+/** Messages on /api/events/ws, one per text frame. */
+type StreamFrame =
+    | { kind: 'hello'; streamId: string; lastEventId: number }
+    | { kind: 'heartbeat' }
+    | { kind: 'event'; id: number; event: unknown };
+
+/**
+ * WebSocket client for the event stream, for networks where proxies buffer
+ * text/event-stream responses but pass WebSocket upgrades.
+ */
+export class WebSocketClient extends ReconnectingTransport {
+    readonly kind = 'websocket';
+    private socket: WebSocket | null = null;
+
+    constructor(baseUrl: string, handlers: TransportHandlers) {
+        super(baseUrl, handlers);
+    }
+
+    protected open(): void {
+        // globalThis: also runs in the ingest worker
+        const url = new URL(`${this.baseUrl}/api/events/ws`, globalThis.location.href);
+        url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+        url.search = this.resumeParams().toString();
+
+        const socket = new WebSocket(url);
+        this.socket = socket;
+
+        socket.onopen = () => this.opened();
+
+        socket.onmessage = (message) => {
+            let frame: StreamFrame;
+            try {
+                frame = JSON.parse(message.data) as StreamFrame;
+            } catch (error) {
+                console.error('[WebSocket] Failed to parse frame:', error);
+                return;
+            }
+
+            switch (frame.kind) {
+                case 'hello':
+                    this.hello(frame.streamId, frame.lastEventId);
+                    break;
+                case 'heartbeat':
+                    this.heartbeat();
+                    break;
+                case 'event':
+                    this.receive(frame.id, frame.event);
+                    break;
+            }
+        };
+
+        socket.onclose = () => {
+            // A socket replaced by a reconnect still reports its own close
+            if (this.socket !== socket) return;
+            console.error('[WebSocket] Connection closed');
+            this.failed();
+        };
+    }
+
+    protected close(): void {
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+    }
+}
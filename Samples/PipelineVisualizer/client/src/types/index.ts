@@ -30,32 +30,185 @@ export interface StepTypeInfo {
     color: string;
 }
 
+/**
+ * An edge whose producing step's output type cannot feed the consuming step's input type.
+ * sources lists every graph node the edge may start from: the producing step and, for
+ * parallel branches, the parallel step that collects them.
+ */
+export interface TypeMismatch {
+    sources: string[];
+    target: string;
+    outputType: string;
+    inputType: string;
+}
+
+/**
+ * A problem in an edited pipeline definition; stepName is set when it concerns one step.
+ */
+export interface DefinitionProblem {
+    stepName?: string;
+    message: string;
+}
+
+export type StepChangeKind = 'added' | 'removed' | 'modified' | 'unchanged';
+
+/**
+ * One field of a step that differs between two definitions, e.g. "config.model".
+ */
+export interface StepFieldChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+export interface StepDiff {
+    kind: StepChangeKind;
+    changes: StepFieldChange[];
+}
+
+/**
+ * Two definitions merged into one: every step of either side, keyed by name.
+ */
+export interface DefinitionDiff {
+    merged: PipelineDefinition;
+    steps: Record<string, StepDiff>;
+}
+
 // ========================================
 // Event Types (matching C# events)
 // ========================================
 
-export type EventType =
-    | 'step.started'
-    | 'step.completed'
-    | 'step.progress'
-    | 'step.validation'
-    | 'step.routing'
-    | 'pipeline.started'
-    | 'pipeline.completed'
-    | 'llm.response'
-    | 'tool.started'
-    | 'tool.completed'
-    | 'context.snapshot';
-
-export interface PipelineEvent {
+/**
+ * Payloads of the framework events, decoded from the PascalCase C# records by
+ * services/eventDecoder. TimeSpans arrive as durationMs; fields repeated on the
+ * event envelope (StepName, Timestamp, CorrelationId) are left out.
+ */
+export interface StepStartedPayload {
+    attemptNumber: number;
+    additionalData?: Record<string, unknown>;
+}
+
+export interface StepCompletedPayload {
+    success: boolean;
+    durationMs?: number;
+    errorMessage?: string;
+    additionalData?: Record<string, unknown>;
+}
+
+/**
+ * StepProgressEvent carries a free-form EventType (e.g. "ToolProgress"), kept as progressType.
+ */
+export interface StepProgressPayload {
+    progressType: string;
+    message: string;
+    currentProgress?: number;
+    totalProgress?: number;
+    metadata?: Record<string, unknown>;
+}
+
+export interface StepValidationPayload {
+    isValid: boolean;
+    validationError?: string;
+    validationType: 'structural' | 'semantic';
+    attemptNumber: number;
+}
+
+export interface StepRoutingPayload {
+    selectedRoute: string;
+    routingReason: string;
+}
+
+export interface PipelineStartedPayload {
+    pipelineName: string;
+    totalSteps: number;
+}
+
+export interface PipelineCompletedPayload {
+    pipelineName: string;
+    success: boolean;
+    cancelled: boolean;
+    durationMs?: number;
+    errorMessage?: string;
+}
+
+export type FinishReason = 'Streaming' | 'Stop' | 'Length' | 'ToolCalls' | 'ContentFilter' | 'Other';
+
+export interface LlmResponsePayload {
+    /** A delta of the streamed response. */
+    content: string;
+    finishReason: FinishReason;
+    rawFinishReason?: string;
+    isThinking: boolean;
+    tokensUsed: number;
+    model?: string;
+    provider?: string;
+}
+
+export interface ToolStartedPayload {
+    toolName: string;
+    additionalData?: Record<string, unknown>;
+}
+
+export interface ToolCompletedPayload {
+    toolName: string;
+    success: boolean;
+    durationMs?: number;
+    errorMessage?: string;
+    additionalData?: Record<string, unknown>;
+}
+
+export interface TagStartedPayload {
+    tagName: string;
+    attributes: Record<string, string>;
+    additionalData?: Record<string, unknown>;
+}
+
+export interface TagCompletedPayload {
+    tagName: string;
+    success: boolean;
+    durationMs?: number;
+    errorMessage?: string;
+    additionalData?: Record<string, unknown>;
+}
+
+export interface ContextSnapshotPayload {
+    stepResults: Record<string, unknown>;
+    metadata: Record<string, unknown>;
+    currentPath: string;
+}
+
+export interface EventPayloads {
+    'step.started': StepStartedPayload;
+    'step.completed': StepCompletedPayload;
+    'step.progress': StepProgressPayload;
+    'step.validation': StepValidationPayload;
+    'step.routing': StepRoutingPayload;
+    'pipeline.started': PipelineStartedPayload;
+    'pipeline.completed': PipelineCompletedPayload;
+    'llm.response': LlmResponsePayload;
+    'tool.started': ToolStartedPayload;
+    'tool.completed': ToolCompletedPayload;
+    'tag.started': TagStartedPayload;
+    'tag.completed': TagCompletedPayload;
+    'context.snapshot': ContextSnapshotPayload;
+}
+
+export type EventType = keyof EventPayloads;
+
+export interface PipelineEventOf<T extends EventType> {
     type: 'pipeline';
-    eventType: EventType;
+    eventType: T;
     stepName: string;
     correlationId: string;
     timestamp: string;
-    data: Record<string, unknown>;
+    data: EventPayloads[T];
 }
 
+/**
+ * Discriminated on eventType, which narrows data to its payload.
+ */
+export type PipelineEvent = { [T in EventType]: PipelineEventOf<T> }[EventType];
+
 export interface LogEvent {
     type: 'log';
     level: 'Debug' | 'Information' | 'Warning' | 'Error' | 'Fatal';
@@ -66,6 +219,167 @@ export interface LogEvent {
 
 export type SseEvent = PipelineEvent | LogEvent;
 
+/**
+ * A received event that failed to decode; kept for the diagnostics list instead of the stream.
+ */
+export interface EventDiagnostic {
+    id: string;
+    receivedAt: string;
+    error: string;
+    raw: unknown;
+}
+
+/**
+ * Events the client missed on the event stream: a jump in event ids after a reconnect
+ * or a slow connection, or a server restart (ids start over, the count is unknown).
+ */
+export interface StreamGap {
+    id: string;
+    reason: 'missed' | 'restart';
+    missed?: number;
+    /** Timestamp of the last event received before the gap. */
+    after?: string;
+    detectedAt: string;
+}
+
+/**
+ * How the client receives the event stream. SSE is the default; WebSocket and
+ * long-poll serve networks whose proxies buffer text/event-stream responses,
+ * and 'recording' plays an NDJSON session recording for demos and tests.
+ */
+export type TransportKind = 'sse' | 'websocket' | 'long-poll' | 'recording';
+
+export interface TransportHandlers {
+    onEvent: (event: SseEvent) => void;
+    onConnection: (connected: boolean) => void;
+    onGap: (gap: StreamGap) => void;
+    onDiagnostic: (diagnostic: EventDiagnostic) => void;
+}
+
+/**
+ * A source of SseEvents. Implementations reconnect on their own after
+ * connect() until disconnect() is called.
+ */
+export interface EventTransport {
+    readonly kind: TransportKind;
+    connect(): void;
+    /** Reconnects now, e.g. from a manual reconnect button. */
+    reconnect(): void;
+    disconnect(): void;
+}
+
+/**
+ * A tool.started / tool.completed pair for one tool invocation.
+ * success is undefined while the call is still running.
+ */
+export interface ToolCall {
+    id: string;
+    stepName: string;
+    toolName: string;
+    startedAt: string;
+    completedAt?: string;
+    durationMs?: number;
+    success?: boolean;
+    errorMessage?: string;
+    arguments?: Record<string, unknown>;
+    result?: Record<string, unknown>;
+}
+
+/**
+ * A streaming tag from tag.started to tag.completed; tags opened inside it are children.
+ * completedAt is undefined while the tag is open; success stays undefined for a tag
+ * that was closed only because its parent closed.
+ */
+export interface TagSpan {
+    id: string;
+    stepName: string;
+    tagName: string;
+    attributes: Record<string, string>;
+    startedAt: string;
+    completedAt?: string;
+    durationMs?: number;
+    success?: boolean;
+    errorMessage?: string;
+    children: TagSpan[];
+}
+
+/**
+ * Tag trees per step, and the step each run last started or streamed in, by
+ * correlationId: tag handlers do not know their step, so their events go to that one.
+ */
+export interface TagSpanState {
+    spans: Record<string, TagSpan[]>;
+    streamingSteps: Record<string, string>;
+}
+
+/**
+ * One step.validation result; a failed attempt makes the step retry its LLM call.
+ */
+export interface ValidationAttempt {
+    stepName: string;
+    attemptNumber: number;
+    isValid: boolean;
+    validationType?: 'structural' | 'semantic';
+    validationError?: string;
+    timestamp: string;
+}
+
+/** Validation state of a step, for graph badges. */
+export interface StepValidationSummary {
+    attempts: number;
+    failures: number;
+    /** The latest attempt failed and the step is still running, i.e. it is being retried. */
+    retrying: boolean;
+    lastError?: string;
+}
+
+/**
+ * The route a router step chose in a run, from its step.routing event.
+ */
+export interface RoutingDecision {
+    stepName: string;
+    /** Name of the taken route's target step, not the route key; see isTakenRoute. */
+    selectedRoute: string;
+    reason?: string;
+    timestamp: string;
+}
+
+/**
+ * Folds the user set in a pipeline graph, by the name of the folded step:
+ * true when collapsed, false when expanded. Steps without an entry keep their default.
+ */
+export type FoldOverrides = Record<string, boolean>;
+
+/**
+ * Aggregate status of the steps inside a collapsed subgraph.
+ */
+export interface FoldSummary {
+    steps: number;
+    running: number;
+    done: number;
+    failed: number;
+}
+
+export type LogLevel = LogEvent['level'];
+
+/**
+ * Event stream filter. An empty list means no restriction on that dimension;
+ * eventTypes uses 'log' for log events.
+ */
+export interface EventFilter {
+    levels: LogLevel[];
+    eventTypes: string[];
+    steps: string[];
+    correlationIds: string[];
+    search: string;
+    regex: boolean;
+}
+
+export interface EventFilterPreset {
+    name: string;
+    filter: EventFilter;
+}
+
 // ========================================
 // Context Types
 // ========================================
@@ -74,6 +388,66 @@ export interface ContextSnapshot {
     stepResults: Record<string, unknown>;
     metadata: Record<string, unknown>;
     currentPath: string;
+    stepName?: string;
+    timestamp?: string;
+}
+
+export type ContextChangeKind = 'added' | 'changed' | 'removed';
+
+export interface ContextChange {
+    key: string;
+    kind: ContextChangeKind;
+    before?: unknown;
+    after?: unknown;
+}
+
+/**
+ * Entries a snapshot added, changed or removed relative to the previous one.
+ */
+export interface ContextDiff {
+    stepResults: ContextChange[];
+    metadata: ContextChange[];
+}
+
+// ========================================
+// Usage & Cost Types
+// ========================================
+
+/**
+ * Per-model prices in USD, using the same fields as the framework's LLM profile pricing.
+ */
+export interface ModelPricing {
+    inputTokenPricePerMillion: number;
+    outputTokenPricePerMillion: number;
+}
+
+/** Pricing keyed by model name (e.g. "gemini-2.5-flash"). */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Tokens one step used with one model, summed over its llm.response events.
+ */
+export interface TokenUsage {
+    stepName: string;
+    model?: string;
+    provider?: string;
+    tokens: number;
+    calls: number;
+}
+
+export interface UsageBucket {
+    tokens: number;
+    calls: number;
+    cost: number;
+    /** False when at least one call had no price in the table. */
+    priced: boolean;
+}
+
+export interface UsageSummary {
+    total: UsageBucket;
+    byStep: Record<string, UsageBucket>;
+    byModel: Record<string, UsageBucket>;
+    byProvider: Record<string, UsageBucket>;
 }
 
 // ========================================
@@ -86,11 +460,40 @@ export interface ChatMessage {
     content: string;
     timestamp: Date;
     correlationId?: string;
+    reasoning?: string;
+    isStreaming?: boolean;
+}
+
+/**
+ * A chat kept in IndexedDB. id is local; conversationId is the backend's
+ * ConversationContext id, sent again when the conversation is resumed.
+ */
+export interface Conversation {
+    id: string;
+    conversationId: string | null;
+    title: string;
+    messages: ChatMessage[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Live LLM output of a run, accumulated from llm.response chunks of one step.
+ */
+export interface LlmStream {
+    stepName: string;
+    content: string;
+    reasoning: string;
+    /** Summed over the chunks. */
+    tokens: number;
+    /** From the latest chunk that names one. */
+    model?: string;
 }
 
 export interface ChatRequest {
     message: string;
     conversationId?: string | null;
+    correlationId?: string;
 }
 
 export interface ChatResponse {
@@ -105,7 +508,112 @@ export interface ChatResponse {
 // UI State Types
 // ========================================
 
-export type PipelineStatus = 'idle' | 'running' | 'completed' | 'error';
+export type PipelineStatus = 'idle' | 'running' | 'completed' | 'error' | 'cancelled';
+
+/**
+ * State of a single pipeline execution, keyed by its correlationId.
+ */
+export interface PipelineRun {
+    correlationId: string;
+    status: PipelineStatus;
+    startedAt: string;
+    completedAt?: string;
+    activeSteps: string[];
+    completedSteps: string[];
+    failedSteps: string[];
+    /** Steps that were still running when the run was cancelled. */
+    interruptedSteps: string[];
+    snapshots: ContextSnapshot[];
+    /** The newest events of the run; older ones beyond the buffer size are dropped. */
+    events: SseEvent[];
+    droppedEvents: number;
+    /** Built up with each batch of events, dropped ones included. */
+    insights: RunInsights;
+}
+
+/**
+ * What the panels show about a run's events, kept up to date per batch
+ * (see applyEventsToRuns) so that no panel rescans every event.
+ */
+export interface RunInsights {
+    toolCalls: ToolCall[];
+    tags: TagSpanState;
+    validations: Record<string, ValidationAttempt[]>;
+    routing: Record<string, RoutingDecision>;
+    usage: TokenUsage[];
+    /** LLM output of each step that streamed. */
+    llmStreams: Record<string, LlmStream>;
+    /** Steps by their latest step.started, oldest first. */
+    startOrder: string[];
+}
+
+/**
+ * What the graph, context and event panels display for the selected run.
+ */
+export interface RunView {
+    events: SseEvent[];
+    status: PipelineStatus;
+    activeSteps: string[];
+    completedSteps: string[];
+    failedSteps: string[];
+    interruptedSteps: string[];
+    context?: ContextSnapshot;
+    snapshots: ContextSnapshot[];
+    insights: RunInsights;
+}
+
+/**
+ * A run's event stream saved together with the pipeline definition it was shown against.
+ */
+export interface SessionRecording {
+    version: number;
+    recordedAt: string;
+    correlationId?: string;
+    pipeline: PipelineDefinition | null;
+    events: SseEvent[];
+}
+
+/**
+ * One line of a line-by-line text diff.
+ */
+export interface TextDiffLine {
+    kind: 'same' | 'added' | 'removed';
+    text: string;
+}
+
+/**
+ * What one step did in one run.
+ */
+export interface StepRunStats {
+    status: 'completed' | 'failed' | 'skipped';
+    /** Summed over every execution of the step, e.g. validation retries. */
+    durationMs?: number;
+    tokens: number;
+    /** For routers, the key of the route taken. */
+    route?: string;
+    /** The step's result in the run's final context snapshot, as text. */
+    output?: string;
+}
+
+export interface StepComparison {
+    stepName: string;
+    left: StepRunStats;
+    right: StepRunStats;
+    /** Empty when neither run has output; undefined when the outputs are too large to diff. */
+    outputDiff?: TextDiffLine[];
+}
+
+/**
+ * Two completed runs of the same pipeline, compared step by step.
+ * diff marks the steps for the overlaid graph: added when only the right run ran
+ * a step, removed when only the left did, modified when the two runs differ.
+ */
+export interface RunComparison {
+    steps: StepComparison[];
+    diff: Record<string, StepDiff>;
+    /** Decisions of the routers that took the same route in both runs. */
+    sharedRouting: Record<string, RoutingDecision>;
+}
 
 export interface AppState {
     status: PipelineStatus;
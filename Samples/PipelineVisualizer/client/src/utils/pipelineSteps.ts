@@ -0,0 +1,46 @@
+import { PipelineStep } from '../types';
+
+/**
+ * Step classification helpers shared by the views that walk a PipelineDefinition.
+ * Type names may carry a generic arity suffix (e.g. "ParallelStep`1").
+ */
+
+export function baseTypeName(type: string): string {
+    return type.split('`')[0];
+}
+
+export function isParallelStep(step: PipelineStep): boolean {
+    return step.type.startsWith('ParallelStep');
+}
+
+export function isRouterStep(step: PipelineStep): boolean {
+    return !!step.routes;
+}
+
+/** Logical group (phase): has children but is neither parallel nor a router. */
+export function isGroupStep(step: PipelineStep): boolean {
+    return !!step.steps && step.steps.length > 0 && !isParallelStep(step) && !isRouterStep(step);
+}
+
+/** Direct children of a step: sequence or parallel steps, or route targets. */
+export function childSteps(step: PipelineStep): PipelineStep[] {
+    if (step.routes) {
+        return Object.values(step.routes);
+    }
+    return step.steps ?? [];
+}
+
+/** Finds a step by name anywhere in the definition, including route targets. */
+export function findStep(steps: PipelineStep[], name: string): PipelineStep | undefined {
+    for (const step of steps) {
+        if (step.name === name) return step;
+        const found = findStep(childSteps(step), name);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+/** Names of a step and everything nested under it. */
+export function subtreeStepNames(step: PipelineStep): string[] {
+    return [step.name, ...childSteps(step).flatMap(subtreeStepNames)];
+}
@@ -0,0 +1,48 @@
+/**
+ * Fixed-capacity FIFO: pushing past capacity overwrites the oldest items in
+ * O(1) instead of shifting an array.
+ */
+export class RingBuffer<T> {
+    readonly capacity: number;
+    /** Items overwritten since the last clear. */
+    dropped = 0;
+    private readonly items: (T | undefined)[];
+    private start = 0;
+    private count = 0;
+
+    constructor(capacity: number) {
+        this.capacity = Math.max(1, capacity);
+        this.items = new Array(this.capacity);
+    }
+
+    get length(): number {
+        return this.count;
+    }
+
+    push(values: T[]): void {
+        for (const value of values) {
+            if (this.count < this.capacity) {
+                this.items[(this.start + this.count) % this.capacity] = value;
+                this.count++;
+            } else {
+                this.items[this.start] = value;
+                this.start = (this.start + 1) % this.capacity;
+                this.dropped++;
+            }
+        }
+    }
+
+    /** Items oldest first. */
+    toArray(): T[] {
+        const head = this.items.slice(this.start, this.start + this.count);
+        const wrapped = this.items.slice(0, Math.max(0, this.start + this.count - this.capacity));
+        return head.concat(wrapped) as T[];
+    }
+
+    clear(): void {
+        this.items.fill(undefined);
+        this.start = 0;
+        this.count = 0;
+        this.dropped = 0;
+    }
+}
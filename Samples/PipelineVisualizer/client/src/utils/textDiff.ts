@@ -0,0 +1,55 @@
+import { TextDiffLine } from '../types';
+
+/** Largest LCS table diffLines builds, in cells; about 8 MB of numbers. */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line-by-line diff of two texts, from their longest common subsequence of lines.
+ * Removed lines come before the added lines that replace them. Returns undefined
+ * when the differing lines are too many to compare.
+ */
+export function diffLines(before: string, after: string): TextDiffLine[] | undefined {
+    const a = before === '' ? [] : before.split('\n');
+    const b = after === '' ? [] : after.split('\n');
+
+    // Only the lines between the common prefix and suffix need the table
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const rows = endA - start;
+    const columns = endB - start;
+    if (rows * columns > MAX_DIFF_CELLS) return undefined;
+
+    // common[i][j]: length of the longest common subsequence of a[start + i..endA] and b[start + j..endB]
+    const common = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+    for (let i = rows - 1; i >= 0; i--) {
+        for (let j = columns - 1; j >= 0; j--) {
+            common[i][j] = a[start + i] === b[start + j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+        }
+    }
+
+    const lines: TextDiffLine[] = a.slice(0, start).map(text => ({ kind: 'same', text }));
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+        if (a[start + i] === b[start + j]) {
+            lines.push({ kind: 'same', text: a[start + i] });
+            i++;
+            j++;
+        } else if (common[i + 1][j] >= common[i][j + 1]) {
+            lines.push({ kind: 'removed', text: a[start + i++] });
+        } else {
+            lines.push({ kind: 'added', text: b[start + j++] });
+        }
+    }
+    while (i < rows) lines.push({ kind: 'removed', text: a[start + i++] });
+    while (j < columns) lines.push({ kind: 'added', text: b[start + j++] });
+    a.slice(endA).forEach(text => lines.push({ kind: 'same', text }));
+    return lines;
+}
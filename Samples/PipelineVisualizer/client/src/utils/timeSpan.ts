@@ -0,0 +1,45 @@
+/**
+ * Parses a .NET TimeSpan as serialized by Newtonsoft ("[-][d.]hh:mm:ss[.fffffff]")
+ * into milliseconds. Numbers are taken as milliseconds already.
+ */
+export function parseTimeSpan(value: unknown): number | undefined {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    const match = /^(-)?(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?$/.exec(value.trim());
+    if (!match) {
+        return undefined;
+    }
+
+    const [, sign, days, hours, minutes, seconds, fraction] = match;
+    const ms =
+        Number(days ?? 0) * 86_400_000 +
+        Number(hours) * 3_600_000 +
+        Number(minutes) * 60_000 +
+        Number(seconds) * 1000 +
+        (fraction ? Number(`0.${fraction}`) * 1000 : 0);
+
+    return sign ? -ms : ms;
+}
+
+/**
+ * Formats milliseconds for compact display (e.g. "850ms", "12.4s", "2m 05s").
+ */
+export function formatDuration(ms: number): string {
+    // Each branch rounds first, so e.g. 59 960ms becomes "1m 00s" rather than "60.0s"
+    if (Math.round(ms) < 1000) {
+        return `${Math.round(ms)}ms`;
+    }
+    const tenths = Math.round(ms / 100);
+    if (tenths < 600) {
+        return `${(tenths / 10).toFixed(1)}s`;
+    }
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
@@ -0,0 +1,65 @@
+import { EventTransport } from '../types';
+import { createTransport } from '../services/eventTransport';
+import { EventBatcher, IngestCommand, IngestConfig, IngestMessage } from '../services/eventBatcher';
+import { eventSpill } from '../services/eventSpill';
+
+/**
+ * Runs the event transport off the main thread: messages are parsed and decoded
+ * here, spilled to IndexedDB when enabled, and posted to the page in batches.
+ */
+
+/** Coalesces bursts into one message; the page flushes per animation frame anyway. */
+const POST_INTERVAL = 16;
+
+// The DOM lib types self as Window; only these members of the worker scope are used
+const scope = self as unknown as {
+    onmessage: ((message: MessageEvent<IngestCommand>) => void) | null;
+    postMessage: (message: IngestMessage) => void;
+};
+
+let config: IngestConfig | null = null;
+let transport: EventTransport | null = null;
+let postTimer: ReturnType<typeof setTimeout> | null = null;
+
+const batcher = new EventBatcher(() => {
+    postTimer ??= setTimeout(postBatch, POST_INTERVAL);
+});
+
+function postBatch(): void {
+    postTimer = null;
+    const batch = batcher.take();
+    if (config?.spill && batch.events.length > 0) {
+        eventSpill.append(batch.events).catch((error) => console.error('[ingest] Failed to spill events:', error));
+    }
+    scope.postMessage({ type: 'batch', batch });
+}
+
+function connect(next: IngestConfig): void {
+    if (next.transport.kind === 'sse' && typeof EventSource === 'undefined') {
+        scope.postMessage({ type: 'unsupported' });
+        return;
+    }
+
+    config = next;
+
+    transport = createTransport(next.transport, {
+        ...batcher.handlers,
+        onConnection: (connected) => scope.postMessage({ type: 'connection', connected }),
+    });
+    transport.connect();
+}
+
+scope.onmessage = ({ data: command }) => {
+    switch (command.type) {
+        case 'connect':
+            connect(command.config);
+            break;
+        case 'reconnect':
+            transport?.reconnect();
+            break;
+        case 'disconnect':
+            transport?.disconnect();
+            transport = null;
+            break;
+    }
+};